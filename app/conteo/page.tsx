@@ -0,0 +1,16 @@
+"use client";
+
+import { InventoryCounts } from "@/components/inventory-count";
+import { Navbar } from "@/components/navbar";
+
+export default function InventoryCountPage() {
+  return (
+    <div className="flex h-full flex-col text-[var(--primary-dark)]">
+      <Navbar activePage="count" />
+
+      <main className="flex-1 overflow-y-auto bg-[var(--primary-soft)]/60">
+        <InventoryCounts />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { BundleLabels } from "@/components/bundle-labels";
+
+type Props = {
+  searchParams: Promise<{ orden?: string; bultos?: string }>;
+};
+
+export default async function LabelsPage({ searchParams }: Props) {
+  const { orden, bultos } = await searchParams;
+
+  return (
+    <main className="h-full overflow-y-auto text-[var(--primary-dark)] print:h-auto print:overflow-visible">
+      <BundleLabels
+        orderId={orden ?? null}
+        bundleIds={bultos ? bultos.split(",").filter(Boolean) : []}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,16 @@
+"use client";
+
+import { Navbar } from "@/components/navbar";
+import { OrderImport } from "@/components/order-import";
+
+export default function ImportPage() {
+  return (
+    <div className="flex h-full flex-col text-[var(--primary-dark)]">
+      <Navbar activePage="import" />
+
+      <main className="flex-1 overflow-y-auto bg-[var(--primary-soft)]/60">
+        <OrderImport />
+      </main>
+    </div>
+  );
+}
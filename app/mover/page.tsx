@@ -0,0 +1,16 @@
+"use client";
+
+import { Navbar } from "@/components/navbar";
+import { ScanMove } from "@/components/scan-move";
+
+export default function MovePage() {
+  return (
+    <div className="flex h-full flex-col text-[var(--primary-dark)]">
+      <Navbar activePage="move" />
+
+      <main className="flex-1 overflow-y-auto bg-[var(--primary-soft)]/60">
+        <ScanMove />
+      </main>
+    </div>
+  );
+}
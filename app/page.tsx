@@ -3,26 +3,45 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { CutOrderPanel } from "@/components/cut-order-panel";
 import { AddCutOrderForm } from "@/components/add-cut-order-form";
-import { CutOrder } from "@/types/cut-order";
+import { OrderStatusBadge } from "@/components/order-status-badge";
+import { CutOrder, CutOrderDraft, CutOrderStatus } from "@/types/cut-order";
 import { fetchCutOrders } from "@/lib/services/cut-orders";
+import { draftFromCutOrder } from "@/lib/services/order-templates";
 import { Navbar } from "@/components/navbar";
+import { ScanBar } from "@/components/scan-bar";
+
+const STATUS_FILTERS: { value: CutOrderStatus; label: string }[] = [
+  { value: "Borrador", label: "Borradores" },
+  { value: "Operativa", label: "Operativas" },
+  { value: "Pausada", label: "Pausadas" },
+  { value: "Completada", label: "Completadas" },
+  { value: "Cancelada", label: "Canceladas" },
+];
 
 export default function Home() {
   const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<"todos" | "activo" | "inactivo">(
-    "todos",
-  );
+  const [statusFilter, setStatusFilter] = useState<"todos" | CutOrderStatus>("todos");
+  // Las canceladas solo se cargan cuando se filtran explícitamente.
+  const includeCancelled = statusFilter === "Cancelada";
   const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
   const [orders, setOrders] = useState<CutOrder[]>([]);
   const [isAddingOrder, setIsAddingOrder] = useState(false);
+  const [newOrderDraft, setNewOrderDraft] = useState<{
+    key: number;
+    draft: CutOrderDraft | null;
+  }>({ key: 0, draft: null });
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isScanMode, setIsScanMode] = useState(false);
+  const [scanFocus, setScanFocus] = useState<{ bundleId: string; nonce: number } | null>(
+    null,
+  );
 
   const loadOrders = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     try {
-      const data = await fetchCutOrders();
+      const data = await fetchCutOrders({ includeCancelled });
       setOrders(data);
       setSelectedOrderId((current) => {
         if (current && data.some((order) => order.id === current)) {
@@ -39,7 +58,7 @@ export default function Home() {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [includeCancelled]);
 
   useEffect(() => {
     loadOrders();
@@ -50,10 +69,7 @@ export default function Home() {
       const matchesSearch = order.code
         .toLowerCase()
         .includes(searchTerm.toLowerCase());
-      const matchesStatus =
-        statusFilter === "todos"
-          || (statusFilter === "activo" && order.status === "Activo")
-          || (statusFilter === "inactivo" && order.status === "Inactivo");
+      const matchesStatus = statusFilter === "todos" || order.status === statusFilter;
 
       return matchesSearch && matchesStatus;
     });
@@ -71,6 +87,31 @@ export default function Home() {
   const selectedOrder =
     filteredOrders.find((order) => order.id === selectedOrderId) ?? null;
 
+  // Cada apertura del formulario lo reinicia con el borrador indicado.
+  const openNewOrderForm = useCallback((draft: CutOrderDraft | null) => {
+    setNewOrderDraft((prev) => ({ key: prev.key + 1, draft }));
+    setSelectedOrderId(null);
+    setIsAddingOrder(true);
+  }, []);
+
+  const handleDuplicate = useCallback(
+    (order: CutOrder) => openNewOrderForm(draftFromCutOrder(order)),
+    [openNewOrderForm],
+  );
+
+  // El bulto escaneado se muestra aunque los filtros del listado ocultaran su orden.
+  const handleBundleScanned = useCallback(
+    ({ orderId, bundleId }: { orderId: string; bundleId: string }) => {
+      setSearchTerm("");
+      setStatusFilter("todos");
+      setIsAddingOrder(false);
+      setSelectedOrderId(orderId);
+      setScanFocus((prev) => ({ bundleId, nonce: (prev?.nonce ?? 0) + 1 }));
+      loadOrders();
+    },
+    [loadOrders],
+  );
+
   const handleOrderCreated = useCallback(() => {
     setIsAddingOrder(false);
     loadOrders();
@@ -101,13 +142,16 @@ export default function Home() {
               <select
                 value={statusFilter}
                 onChange={(event) =>
-                  setStatusFilter(event.target.value as "todos" | "activo" | "inactivo")
+                  setStatusFilter(event.target.value as "todos" | CutOrderStatus)
                 }
                 className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-3 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none sm:h-10"
               >
-                <option value="todos">Todos</option>
-                <option value="activo">Activos</option>
-                <option value="inactivo">Inactivos</option>
+                <option value="todos">Todas</option>
+                {STATUS_FILTERS.map((filter) => (
+                  <option key={filter.value} value={filter.value}>
+                    {filter.label}
+                  </option>
+                ))}
               </select>
             </div>
           </div>
@@ -148,15 +192,7 @@ export default function Home() {
                     >
                       <div className="flex items-center justify-between text-sm font-semibold text-[var(--primary-dark)]">
                         <span>{order.code}</span>
-                        <span
-                          className={`rounded-md px-3 py-0.5 text-xs font-medium ${
-                            order.status === "Activo"
-                              ? "bg-emerald-100 text-emerald-700"
-                              : "bg-[var(--primary-soft)] text-[var(--primary-dark)]"
-                          }`}
-                        >
-                          {order.status}
-                        </span>
+                        <OrderStatusBadge status={order.status} className="px-3 py-0.5 text-xs" />
                       </div>
                       <p className="mt-1 text-xs text-[var(--primary)]">{order.date}</p>
                     </button>
@@ -167,27 +203,49 @@ export default function Home() {
           </div>
 
           <button
-            onClick={() => {
-              setSelectedOrderId(null);
-              setIsAddingOrder(true);
-            }}
-            className="mt-4 w-full rounded-md bg-[var(--primary)] px-4 py-3 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)]"
+            onClick={() => setIsScanMode((prev) => !prev)}
+            className={`mt-4 w-full rounded-md border px-4 py-3 text-sm font-semibold transition ${
+              isScanMode
+                ? "border-[var(--primary)] bg-[var(--primary-soft)] text-[var(--primary-dark)]"
+                : "border-[var(--primary-muted)] text-[var(--primary-dark)] hover:border-[var(--primary)]"
+            }`}
+          >
+            {isScanMode ? "Salir del modo escaneo" : "Modo escaneo"}
+          </button>
+          <button
+            onClick={() => openNewOrderForm(null)}
+            className="mt-3 w-full rounded-md bg-[var(--primary)] px-4 py-3 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)]"
           >
             Añadir Orden de Corte
           </button>
         </aside>
 
         <main className="flex flex-1 flex-col overflow-hidden bg-[var(--primary-soft)]/60 pb-0">
+          {isScanMode ? (
+            <ScanBar
+              orders={orders}
+              onBundleScanned={handleBundleScanned}
+              onChanged={loadOrders}
+              onClose={() => setIsScanMode(false)}
+            />
+          ) : null}
           {isAddingOrder ? (
             <div className="flex h-full flex-1 flex-col overflow-y-auto">
               <AddCutOrderForm
+                key={newOrderDraft.key}
+                initialDraft={newOrderDraft.draft}
                 onCancel={() => setIsAddingOrder(false)}
                 onCreated={handleOrderCreated}
               />
             </div>
           ) : (
             <div className="flex h-full flex-1 flex-col overflow-hidden">
-              <CutOrderPanel order={selectedOrder} onRequestReload={loadOrders} />
+              <CutOrderPanel
+                order={selectedOrder}
+                onRequestReload={loadOrders}
+                onDuplicate={handleDuplicate}
+                scanFocus={scanFocus}
+              />
             </div>
           )}
         </main>
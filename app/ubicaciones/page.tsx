@@ -0,0 +1,16 @@
+"use client";
+
+import { LocationCatalog } from "@/components/location-catalog";
+import { Navbar } from "@/components/navbar";
+
+export default function LocationsPage() {
+  return (
+    <div className="flex h-full flex-col text-[var(--primary-dark)]">
+      <Navbar activePage="locations" />
+
+      <main className="flex-1 overflow-y-auto bg-[var(--primary-soft)]/60">
+        <LocationCatalog />
+      </main>
+    </div>
+  );
+}
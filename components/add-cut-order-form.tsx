@@ -1,11 +1,30 @@
 "use client";
 
-import { FormEvent, useState, useEffect, useMemo } from "react";
+import { ClipboardEvent, FormEvent, useState, useEffect, useMemo } from "react";
 import { createCutOrder } from "@/lib/services/cut-orders";
 import { fetchLocations, type Location } from "@/lib/services/locations";
 import { fetchMaterials } from "@/lib/services/materials";
-import { Material } from "@/types/cut-order";
+import {
+  deleteOrderTemplate,
+  fetchOrderTemplates,
+  saveOrderTemplate,
+} from "@/lib/services/order-templates";
+import {
+  checkOrderCodeAvailable,
+  validateBobina,
+  validateOrderCode,
+  validateOrderDate,
+  validateSheets,
+} from "@/lib/services/order-validation";
+import { CutOrderDraft, Material, OrderTemplate } from "@/types/cut-order";
 import { LocationSelect } from "@/components/location-select";
+import {
+  listFormDrafts,
+  removeFormDraft,
+  saveFormDraft,
+  type OrderFormDraft,
+} from "@/lib/order-form-drafts";
+import { createId } from "@/lib/ids";
 
 type BundleInput = {
   id: string;
@@ -19,6 +38,8 @@ type BundleInput = {
 type Props = {
   onCancel?: () => void;
   onCreated?: () => void;
+  /** Material y bultos con los que se abre el formulario, p. ej. al duplicar. */
+  initialDraft?: CutOrderDraft | null;
 };
 
 const createBundles = (count: number, previous: BundleInput[] = []) => {
@@ -35,12 +56,74 @@ const createBundles = (count: number, previous: BundleInput[] = []) => {
   });
 };
 
-export function AddCutOrderForm({ onCancel, onCreated }: Props) {
+const bundlesFromDraft = (draft: CutOrderDraft): BundleInput[] =>
+  draft.bundles.map((bundle, index) => ({
+    id: `temp-${index + 1}`,
+    name: `Bulto #${index + 1}`,
+    location: bundle.location,
+    sheets: String(bundle.sheets),
+    selected: false,
+    num_bobina: bundle.num_bobina,
+  }));
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+type FormFields = {
+  orderNumber: string;
+  orderDate: string;
+  materialId: string;
+  allLocation: string;
+  bundles: BundleInput[];
+};
+
+/** Lo que se guarda del formulario en un borrador local. */
+const toDraftFields = ({ bundles, ...fields }: FormFields) => ({
+  ...fields,
+  bundles: bundles.map((bundle) => ({
+    location: bundle.location,
+    sheets: bundle.sheets,
+    num_bobina: bundle.num_bobina ?? "",
+  })),
+});
+
+const EMPTY_FORM_FIELDS = JSON.stringify(
+  toDraftFields({
+    orderNumber: "",
+    orderDate: "",
+    materialId: "",
+    allLocation: "",
+    bundles: createBundles(5),
+  }),
+);
+
+const isEmptyBundle = (bundle: BundleInput) =>
+  !bundle.sheets.trim() && !bundle.location && !bundle.num_bobina?.trim();
+
+/**
+ * Reparte el total en bultos de `maxPerBundle` láminas; el último se queda
+ * con el resto. Devuelve las láminas de cada bulto.
+ */
+const distributeSheets = (total: number, maxPerBundle: number) => {
+  const count = Math.ceil(total / maxPerBundle);
+  return Array.from({ length: count }, (_, index) =>
+    index === count - 1 ? total - maxPerBundle * (count - 1) : maxPerBundle,
+  );
+};
+
+/** Excel copia "1.200" con separador de miles; se quita antes de validar. */
+const normalizePastedSheets = (value: string) => {
+  const trimmed = value.trim().replace(/\s/g, "");
+  return /^\d{1,3}([.,]\d{3})+$/.test(trimmed) ? trimmed.replace(/[.,]/g, "") : trimmed;
+};
+
+export function AddCutOrderForm({ onCancel, onCreated, initialDraft = null }: Props) {
   const [orderNumber, setOrderNumber] = useState("");
-  const [orderDate, setOrderDate] = useState("");
-  const [bundleCount, setBundleCount] = useState(5);
+  const [orderDate, setOrderDate] = useState(() => (initialDraft ? today() : ""));
+  const [bundleCount, setBundleCount] = useState(
+    () => initialDraft?.bundles.length ?? 5,
+  );
   const [bundles, setBundles] = useState<BundleInput[]>(() =>
-    createBundles(5),
+    initialDraft ? bundlesFromDraft(initialDraft) : createBundles(5),
   );
   const [allLocation, setAllLocation] = useState("");
   const [selectionLocation, setSelectionLocation] = useState("");
@@ -53,7 +136,36 @@ export function AddCutOrderForm({ onCancel, onCreated }: Props) {
   const [isLoadingLocations, setIsLoadingLocations] = useState(true);
   const [materials, setMaterials] = useState<Material[]>([]);
   const [isLoadingMaterials, setIsLoadingMaterials] = useState(true);
-  const [selectedMaterialId, setSelectedMaterialId] = useState("");
+  const [selectedMaterialId, setSelectedMaterialId] = useState(
+    () => initialDraft?.materialId ?? "",
+  );
+  const [templates, setTemplates] = useState<OrderTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState("");
+  const [templateName, setTemplateName] = useState("");
+  const [totalSheets, setTotalSheets] = useState("");
+  const [maxSheetsPerBundle, setMaxSheetsPerBundle] = useState("");
+  // Tras intentar guardar se marcan también los campos y bultos vacíos.
+  const [showAllBundleErrors, setShowAllBundleErrors] = useState(false);
+  const [duplicateCodeError, setDuplicateCodeError] = useState<string | null>(null);
+  // Borrador local que se autoguarda mientras se escribe.
+  const [localDraftId, setLocalDraftId] = useState<string | null>(null);
+  // Contenido con el que se abrió el formulario: no se autoguarda hasta que se edite.
+  const [loadedFields, setLoadedFields] = useState(() =>
+    initialDraft
+      ? JSON.stringify(
+          toDraftFields({
+            orderNumber: "",
+            orderDate: today(),
+            materialId: initialDraft.materialId ?? "",
+            allLocation: "",
+            bundles: bundlesFromDraft(initialDraft),
+          }),
+        )
+      : EMPTY_FORM_FIELDS,
+  );
+  const [localDraftName, setLocalDraftName] = useState("");
+  const [storedDrafts, setStoredDrafts] = useState<OrderFormDraft[]>([]);
+  const [selectedStoredDraftId, setSelectedStoredDraftId] = useState("");
   
   // Material Combobox State
   const [materialSearch, setMaterialSearch] = useState("");
@@ -127,6 +239,276 @@ export function AddCutOrderForm({ onCancel, onCreated }: Props) {
     loadMaterials();
   }, []);
 
+  const loadTemplates = async () => {
+    try {
+      setTemplates(await fetchOrderTemplates());
+    } catch (error) {
+      console.error("Error al cargar plantillas:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  useEffect(() => {
+    const drafts = listFormDrafts();
+    setStoredDrafts(drafts);
+    setSelectedStoredDraftId(drafts[0]?.id ?? "");
+  }, []);
+
+  const hasContent =
+    Boolean(orderNumber.trim() || selectedMaterialId || allLocation)
+    || bundles.some((bundle) => !isEmptyBundle(bundle));
+
+  const draftFields = useMemo(
+    () =>
+      toDraftFields({
+        orderNumber,
+        orderDate,
+        materialId: selectedMaterialId,
+        allLocation,
+        bundles,
+      }),
+    [orderNumber, orderDate, selectedMaterialId, allLocation, bundles],
+  );
+  const isEdited = JSON.stringify(draftFields) !== loadedFields;
+
+  useEffect(() => {
+    if (!hasContent || (!localDraftId && !isEdited)) return;
+    const id = localDraftId ?? createId();
+    saveFormDraft({
+      id,
+      name: localDraftName.trim() || draftFields.orderNumber.trim() || "Sin número de orden",
+      ...draftFields,
+    });
+    if (!localDraftId) setLocalDraftId(id);
+  }, [hasContent, isEdited, localDraftId, localDraftName, draftFields]);
+
+  const otherDrafts = storedDrafts.filter((draft) => draft.id !== localDraftId);
+
+  const handleResumeDraft = () => {
+    const draft = storedDrafts.find((item) => item.id === selectedStoredDraftId);
+    if (!draft) return;
+    // El borrador que se estaba escribiendo queda guardado y aparece en la lista.
+    setStoredDrafts(listFormDrafts());
+    setLocalDraftId(draft.id);
+    setLocalDraftName(draft.name);
+    setOrderNumber(draft.orderNumber);
+    setOrderDate(draft.orderDate);
+    setSelectedMaterialId(draft.materialId);
+    setAllLocation(draft.allLocation);
+    setSelectionLocation("");
+    setBundleCount(draft.bundles.length);
+    setBundles(
+      createBundles(draft.bundles.length).map((bundle, index) => ({
+        ...bundle,
+        ...draft.bundles[index],
+      })),
+    );
+    setShowAllBundleErrors(false);
+    setSubmitFeedback({
+      type: "success",
+      text: `Borrador local "${draft.name}" recuperado.`,
+    });
+  };
+
+  const handleDiscardStoredDraft = () => {
+    if (!selectedStoredDraftId) return;
+    removeFormDraft(selectedStoredDraftId);
+    const drafts = listFormDrafts();
+    setStoredDrafts(drafts);
+    setSelectedStoredDraftId(drafts.find((draft) => draft.id !== localDraftId)?.id ?? "");
+  };
+
+  const applyDraft = (draft: CutOrderDraft) => {
+    setBundleCount(draft.bundles.length);
+    setBundles(bundlesFromDraft(draft));
+    setSelectedMaterialId(draft.materialId ?? "");
+    setAllLocation("");
+    setSelectionLocation("");
+  };
+
+  const handleApplyTemplate = () => {
+    const template = templates.find((item) => item.id === selectedTemplateId);
+    if (!template) return;
+    applyDraft(template);
+    setSubmitFeedback({
+      type: "success",
+      text: `Plantilla "${template.name}" aplicada.`,
+    });
+  };
+
+  const handleSaveTemplate = async () => {
+    try {
+      await saveOrderTemplate({
+        name: templateName,
+        draft: {
+          materialId: selectedMaterialId || null,
+          bundles: bundles.map((bundle) => ({
+            sheets: Number(bundle.sheets) || 0,
+            location: bundle.location || allLocation,
+            num_bobina: bundle.num_bobina ?? "",
+          })),
+        },
+      });
+      setSubmitFeedback({
+        type: "success",
+        text: `Plantilla "${templateName.trim()}" guardada.`,
+      });
+      setTemplateName("");
+      loadTemplates();
+    } catch (templateError) {
+      setSubmitFeedback({
+        type: "error",
+        text:
+          templateError instanceof Error
+            ? templateError.message
+            : "No se pudo guardar la plantilla.",
+      });
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!selectedTemplateId) return;
+    try {
+      await deleteOrderTemplate(selectedTemplateId);
+      setSelectedTemplateId("");
+      loadTemplates();
+    } catch (templateError) {
+      setSubmitFeedback({
+        type: "error",
+        text:
+          templateError instanceof Error
+            ? templateError.message
+            : "No se pudo eliminar la plantilla.",
+      });
+    }
+  };
+
+  const locationCodes = useMemo(
+    () => new Map(locations.map((location) => [location.codigo.toLowerCase(), location.codigo])),
+    [locations],
+  );
+
+  const getBundleError = (bundle: BundleInput): string | null => {
+    const location = bundle.location || allLocation;
+    if (!bundle.sheets.trim() && !location) return "Completa la ubicación y las láminas.";
+    const sheetsError = validateSheets(bundle.sheets.trim() ? Number(bundle.sheets) : undefined);
+    if (sheetsError) return sheetsError;
+    if (!location) return "Falta la ubicación.";
+    if (!isLoadingLocations && !locationCodes.has(location.toLowerCase())) {
+      return `Ubicación desconocida: ${location}.`;
+    }
+    return validateBobina(bundle.num_bobina);
+  };
+
+  const codeError =
+    orderNumber || showAllBundleErrors
+      ? validateOrderCode(orderNumber) ?? duplicateCodeError
+      : null;
+  const dateError = orderDate || showAllBundleErrors ? validateOrderDate(orderDate) : null;
+
+  const handleOrderNumberBlur = async () => {
+    if (validateOrderCode(orderNumber)) return;
+    try {
+      setDuplicateCodeError(await checkOrderCodeAvailable(orderNumber));
+    } catch (error) {
+      console.error("Error al verificar el número de orden:", error);
+    }
+  };
+
+  const bundleErrors = new Map(
+    bundles
+      .filter((bundle) => showAllBundleErrors || !isEmptyBundle(bundle))
+      .map((bundle) => [bundle.id, getBundleError(bundle)] as const)
+      .filter((entry): entry is [string, string] => entry[1] !== null),
+  );
+
+  // Pega un bloque copiado de Excel (láminas, ubicación, bobina) a partir de
+  // la fila donde está el cursor, agregando bultos si hace falta.
+  const handleGridPaste = (event: ClipboardEvent<HTMLDivElement>) => {
+    const text = event.clipboardData.getData("text/plain");
+    if (!text.includes("\t") && !text.trim().includes("\n")) return;
+    event.preventDefault();
+
+    const pastedRows = text
+      .replace(/\r/g, "")
+      .split("\n")
+      .map((line) => line.split("\t"))
+      .filter((cells) => cells.some((cell) => cell.trim()));
+    // Un encabezado copiado junto con los datos no se pega como bulto.
+    if (pastedRows[0] && /[a-záéíóú]/i.test(pastedRows[0][0] ?? "") && !/\d/.test(pastedRows[0][0])) {
+      pastedRows.shift();
+    }
+    if (pastedRows.length === 0) return;
+
+    const rowElement = (event.target as HTMLElement).closest("[data-bundle-index]");
+    const startIndex = Number(rowElement?.getAttribute("data-bundle-index") ?? 0);
+    const nextCount = Math.max(bundles.length, startIndex + pastedRows.length);
+
+    const nextBundles = createBundles(nextCount, bundles).map((bundle, index) => {
+      const cells = pastedRows[index - startIndex];
+      if (!cells) return bundle;
+      const [sheets = "", location = "", bobina = ""] = cells;
+      const rawLocation = location.trim();
+      return {
+        ...bundle,
+        sheets: normalizePastedSheets(sheets),
+        location: locationCodes.get(rawLocation.toLowerCase()) ?? rawLocation,
+        num_bobina: bobina.trim(),
+      };
+    });
+
+    setBundleCount(nextCount);
+    setBundles(nextBundles);
+    const failed = nextBundles
+      .slice(startIndex, startIndex + pastedRows.length)
+      .filter((bundle) => getBundleError(bundle) !== null).length;
+    setSubmitFeedback(
+      failed > 0
+        ? {
+            type: "error",
+            text: `Se pegaron ${pastedRows.length} filas; ${failed} tienen errores marcados en rojo.`,
+          }
+        : { type: "success", text: `Se pegaron ${pastedRows.length} filas.` },
+    );
+  };
+
+  const handleDistribute = () => {
+    const total = Number(totalSheets);
+    const maxPerBundle = Number(maxSheetsPerBundle);
+    if (!Number.isInteger(total) || total <= 0 || !Number.isInteger(maxPerBundle) || maxPerBundle <= 0) {
+      setSubmitFeedback({
+        type: "error",
+        text: "Ingresa el total de láminas y el máximo por bulto como números enteros mayores a cero.",
+      });
+      return;
+    }
+
+    const sizes = distributeSheets(total, maxPerBundle);
+    setBundleCount(sizes.length);
+    // Se conservan ubicación y bobina de las filas que ya existían.
+    setBundles((prev) =>
+      createBundles(sizes.length, prev).map((bundle, index) => ({
+        ...bundle,
+        sheets: String(sizes[index]),
+      })),
+    );
+    setSubmitFeedback({
+      type: "success",
+      text: `${total.toLocaleString("es-ES")} láminas repartidas en ${sizes.length} ${
+        sizes.length === 1 ? "bulto" : "bultos"
+      }.`,
+    });
+  };
+
+  const handleDiscardCurrentDraft = () => {
+    if (localDraftId) removeFormDraft(localDraftId);
+    resetForm();
+    setSubmitFeedback({ type: "success", text: "Borrador local descartado." });
+  };
+
   const handleBundleCountChange = (value: string) => {
     const parsed = Number.parseInt(value, 10);
     const normalized = Number.isNaN(parsed) ? 0 : Math.max(0, parsed);
@@ -164,6 +546,12 @@ export function AddCutOrderForm({ onCancel, onCreated }: Props) {
   };
 
   const resetForm = () => {
+    const drafts = listFormDrafts();
+    setStoredDrafts(drafts);
+    setSelectedStoredDraftId(drafts[0]?.id ?? "");
+    setLocalDraftId(null);
+    setLocalDraftName("");
+    setLoadedFields(EMPTY_FORM_FIELDS);
     setOrderNumber("");
     setOrderDate("");
     setBundleCount(5);
@@ -171,40 +559,52 @@ export function AddCutOrderForm({ onCancel, onCreated }: Props) {
     setAllLocation("");
     setSelectionLocation("");
     setSelectedMaterialId("");
+    setShowAllBundleErrors(false);
+    setDuplicateCodeError(null);
   };
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setSubmitFeedback(null);
+    // "Guardar como orden en borrador" crea la orden sin habilitar movimientos.
+    const submitter = (event.nativeEvent as SubmitEvent).submitter;
+    const isDraft = submitter instanceof HTMLButtonElement && submitter.value === "borrador";
 
-    if (!orderNumber || !orderDate) {
+    const fieldError = validateOrderCode(orderNumber) ?? validateOrderDate(orderDate);
+    if (fieldError) {
+      setShowAllBundleErrors(true);
+      setSubmitFeedback({ type: "error", text: fieldError });
+      return;
+    }
+
+    if (bundles.length === 0) {
       setSubmitFeedback({
         type: "error",
-        text: "Completa el número de orden y la fecha.",
+        text: "Debes agregar al menos un bulto con ubicación y cantidad de láminas.",
       });
       return;
     }
 
-    const normalizedBundles = bundles.map((bundle, index) => ({
-      name: bundle.name || `Bulto #${index + 1}`,
-      currentLocation: bundle.location || allLocation || undefined,
-      sheets: bundle.sheets ? Number(bundle.sheets) : undefined,
-      num_bobina: bundle.num_bobina,
-    }));
-
-    // Validar que hay al menos un bulto con información completa
-    const validBundles = normalizedBundles.filter(
-      (bundle) => bundle.currentLocation && bundle.sheets && bundle.sheets > 0
-    );
-
-    if (validBundles.length === 0) {
+    // Los bultos incompletos se marcan en vez de descartarse al guardar.
+    const invalidCount = bundles.filter((bundle) => getBundleError(bundle) !== null).length;
+    if (invalidCount > 0) {
+      setShowAllBundleErrors(true);
       setSubmitFeedback({
         type: "error",
-        text: "Debes agregar al menos un bulto con ubicación y cantidad de láminas.",
+        text: `${invalidCount} ${
+          invalidCount === 1 ? "bulto tiene" : "bultos tienen"
+        } errores: corrígelos o reduce la cantidad de bultos.`,
       });
       return;
     }
 
+    const validBundles = bundles.map((bundle, index) => ({
+      name: bundle.name || `Bulto #${index + 1}`,
+      currentLocation: locationCodes.get((bundle.location || allLocation).toLowerCase()),
+      sheets: Number(bundle.sheets),
+      num_bobina: bundle.num_bobina,
+    }));
+
     try {
       setIsSubmitting(true);
       await createCutOrder({
@@ -212,12 +612,14 @@ export function AddCutOrderForm({ onCancel, onCreated }: Props) {
         date: orderDate,
         locationFilter: allLocation || undefined,
         materialId: selectedMaterialId || undefined,
+        status: isDraft ? "borrador" : "operativa",
         bundles: validBundles,
       });
       setSubmitFeedback({
         type: "success",
-        text: "Orden creada correctamente.",
+        text: isDraft ? "Orden guardada en borrador." : "Orden creada correctamente.",
       });
+      if (localDraftId) removeFormDraft(localDraftId);
       resetForm();
       onCreated?.();
     } catch (submitError) {
@@ -249,6 +651,110 @@ export function AddCutOrderForm({ onCancel, onCreated }: Props) {
         ) : null}
       </div>
       <form className="mt-6 space-y-6" onSubmit={handleSubmit}>
+        {otherDrafts.length > 0 ? (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-4">
+            <p className="text-sm font-semibold text-amber-800">
+              {otherDrafts.length === 1
+                ? "Tienes un borrador local sin terminar."
+                : `Tienes ${otherDrafts.length} borradores locales sin terminar.`}
+            </p>
+            <div className="mt-3 grid gap-2 sm:grid-cols-[1fr_auto_auto] sm:items-center">
+              <select
+                value={selectedStoredDraftId}
+                onChange={(event) => setSelectedStoredDraftId(event.target.value)}
+                className="w-full rounded-md border border-amber-200 bg-white px-3 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+              >
+                {otherDrafts.map((draft) => (
+                  <option key={draft.id} value={draft.id}>
+                    {draft.name} ({draft.bundles.length} bultos,{" "}
+                    {new Date(draft.updatedAt).toLocaleString("es-ES")})
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleResumeDraft}
+                disabled={!otherDrafts.some((draft) => draft.id === selectedStoredDraftId)}
+                className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:bg-[var(--primary-muted)]"
+              >
+                Retomar
+              </button>
+              <button
+                type="button"
+                onClick={handleDiscardStoredDraft}
+                disabled={!otherDrafts.some((draft) => draft.id === selectedStoredDraftId)}
+                className="rounded-md border border-amber-200 bg-white px-4 py-2 text-sm font-semibold text-amber-800 transition hover:border-amber-400 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Descartar
+              </button>
+            </div>
+          </div>
+        ) : null}
+
+        {localDraftId ? (
+          <div className="grid gap-2 sm:grid-cols-[1fr_auto] sm:items-end">
+            <div>
+              <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+                Nombre del borrador local
+              </label>
+              <input
+                value={localDraftName}
+                onChange={(event) => setLocalDraftName(event.target.value)}
+                placeholder={orderNumber.trim() || "Sin número de orden"}
+                className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+              />
+              <p className="mt-1 text-xs text-[var(--primary)]">
+                Los cambios se guardan automáticamente en este navegador.
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={handleDiscardCurrentDraft}
+              className="rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm font-semibold text-[var(--primary-dark)] transition hover:border-rose-300 hover:text-rose-700 sm:mb-5"
+            >
+              Descartar borrador local
+            </button>
+          </div>
+        ) : null}
+
+        <div className="grid gap-2 sm:grid-cols-[1fr_auto_auto] sm:items-end">
+          <div>
+            <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+              Plantilla
+            </label>
+            <select
+              value={selectedTemplateId}
+              onChange={(event) => setSelectedTemplateId(event.target.value)}
+              className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-3 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+            >
+              <option value="">
+                {templates.length === 0 ? "Sin plantillas guardadas" : "Selecciona una plantilla"}
+              </option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name} ({template.bundles.length} bultos)
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="button"
+            onClick={handleApplyTemplate}
+            disabled={!selectedTemplateId}
+            className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:bg-[var(--primary-muted)]"
+          >
+            Usar
+          </button>
+          <button
+            type="button"
+            onClick={handleDeleteTemplate}
+            disabled={!selectedTemplateId}
+            className="rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm font-semibold text-[var(--primary-dark)] transition hover:border-[var(--primary)] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Eliminar
+          </button>
+        </div>
+
         <div className="space-y-4">
           <div>
             <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
@@ -256,9 +762,18 @@ export function AddCutOrderForm({ onCancel, onCreated }: Props) {
             </label>
             <input
               value={orderNumber}
-              onChange={(event) => setOrderNumber(event.target.value)}
-              className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+              onChange={(event) => {
+                setOrderNumber(event.target.value);
+                setDuplicateCodeError(null);
+              }}
+              onBlur={handleOrderNumberBlur}
+              className={`mt-2 w-full rounded-md border px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none ${
+                codeError ? "border-rose-300" : "border-[var(--primary-muted)]"
+              }`}
             />
+            {codeError ? (
+              <p className="mt-1 text-xs font-medium text-rose-700">{codeError}</p>
+            ) : null}
           </div>
           <div className="grid grid-cols-2 gap-4">
             <div>
@@ -270,8 +785,13 @@ export function AddCutOrderForm({ onCancel, onCreated }: Props) {
                 value={orderDate}
                 onChange={(event) => setOrderDate(event.target.value)}
                 onClick={(e) => e.currentTarget.showPicker()}
-                className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+                className={`mt-2 w-full rounded-md border px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none ${
+                  dateError ? "border-rose-300" : "border-[var(--primary-muted)]"
+                }`}
               />
+              {dateError ? (
+                <p className="mt-1 text-xs font-medium text-rose-700">{dateError}</p>
+              ) : null}
             </div>
             <div>
               <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
@@ -336,6 +856,41 @@ export function AddCutOrderForm({ onCancel, onCreated }: Props) {
           </div>
         </div>
 
+        <div className="grid gap-2 rounded-md border border-dashed border-[var(--primary-muted)] p-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+          <div>
+            <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+              Total de láminas
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={totalSheets}
+              onChange={(event) => setTotalSheets(event.target.value)}
+              className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+            />
+          </div>
+          <div>
+            <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+              Máx. por bulto
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={maxSheetsPerBundle}
+              onChange={(event) => setMaxSheetsPerBundle(event.target.value)}
+              className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleDistribute}
+            disabled={!totalSheets || !maxSheetsPerBundle}
+            className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:bg-[var(--primary-muted)]"
+          >
+            Distribuir
+          </button>
+        </div>
+
         {submitFeedback ? (
           <p
             className={`rounded-md border px-4 py-3 text-sm ${
@@ -391,7 +946,11 @@ export function AddCutOrderForm({ onCancel, onCreated }: Props) {
             </div>
           </div>
 
-          <div className="mt-5 space-y-3">
+          <p className="mt-4 text-xs text-[var(--primary)]">
+            Puedes pegar filas copiadas de Excel (láminas, ubicación y bobina) sobre cualquier
+            bulto; se agregan bultos si hacen falta.
+          </p>
+          <div className="mt-3 space-y-3" onPaste={handleGridPaste}>
             {bundles.length === 0 && (
               <p className="rounded-md border border-dashed border-[var(--primary-muted)] bg-white px-4 py-3 text-sm text-[var(--primary)]">
                 Agrega la cantidad de bultos para asignar ubicaciones.
@@ -401,7 +960,10 @@ export function AddCutOrderForm({ onCancel, onCreated }: Props) {
             {bundles.map((bundle, index) => (
               <div
                 key={bundle.id}
-                className="flex flex-col gap-3 rounded-md border border-[var(--primary-muted)] bg-white px-4 py-3 text-sm text-[var(--primary-dark)]"
+                data-bundle-index={index}
+                className={`flex flex-col gap-3 rounded-md border bg-white px-4 py-3 text-sm text-[var(--primary-dark)] ${
+                  bundleErrors.has(bundle.id) ? "border-rose-300 bg-rose-50" : "border-[var(--primary-muted)]"
+                }`}
               >
                 <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:gap-4">
                   <div className="flex flex-1 items-center gap-3">
@@ -477,11 +1039,38 @@ export function AddCutOrderForm({ onCancel, onCreated }: Props) {
                     />
                   </div>
                 </div>
+                {bundleErrors.has(bundle.id) ? (
+                  <p className="text-xs font-medium text-rose-700">
+                    {bundleErrors.get(bundle.id)}
+                  </p>
+                ) : null}
               </div>
             ))}
          </div>
         </div>
 
+        <div className="grid gap-2 sm:grid-cols-[1fr_auto] sm:items-end">
+          <div>
+            <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+              Guardar como plantilla
+            </label>
+            <input
+              value={templateName}
+              onChange={(event) => setTemplateName(event.target.value)}
+              placeholder="Nombre de la plantilla"
+              className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleSaveTemplate}
+            disabled={!templateName.trim()}
+            className="rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm font-semibold text-[var(--primary-dark)] transition hover:border-[var(--primary)] hover:text-[var(--primary)] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Guardar plantilla
+          </button>
+        </div>
+
         <div className="flex items-center justify-end gap-3">
           {onCancel ? (
             <button
@@ -492,6 +1081,14 @@ export function AddCutOrderForm({ onCancel, onCreated }: Props) {
               Cancelar
             </button>
           ) : null}
+          <button
+            type="submit"
+            value="borrador"
+            disabled={isSubmitting}
+            className="rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm font-semibold text-[var(--primary-dark)] transition hover:border-[var(--primary)] hover:text-[var(--primary)] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Guardar como orden en borrador
+          </button>
           <button
             type="submit"
             disabled={isSubmitting}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import {
+  sheetAdjustmentReasonLabels,
+  type SheetAdjustmentReason,
+} from "@/lib/services/cut-orders";
+import { Bundle } from "@/types/cut-order";
+
+type Props = {
+  bundle: Bundle;
+  onCancel: () => void;
+  onConfirm: (payload: { sheets: number; reason: SheetAdjustmentReason }) => void;
+  isConfirming?: boolean;
+};
+
+const reasonOptions = Object.entries(sheetAdjustmentReasonLabels) as [
+  SheetAdjustmentReason,
+  string,
+][];
+
+export function AdjustSheetsDialog({
+  bundle,
+  onCancel,
+  onConfirm,
+  isConfirming = false,
+}: Props) {
+  const [sheets, setSheets] = useState(String(bundle.sheets));
+  const [reason, setReason] = useState<SheetAdjustmentReason | "">("");
+
+  const nextSheets = Number(sheets);
+  const isValidSheets = Number.isInteger(nextSheets) && nextSheets > 0;
+  const difference = isValidSheets ? nextSheets - bundle.sheets : 0;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4"
+      onClick={onCancel}
+    >
+      <div
+        className="w-full max-w-md rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h3 className="text-2xl font-semibold text-[var(--primary-dark)]">
+          Ajustar {bundle.name}
+        </h3>
+        <p className="mt-2 text-sm text-[var(--primary)]">
+          El bulto tiene {bundle.sheets.toLocaleString("es-ES")} láminas. El ajuste queda en el
+          historial con la cantidad anterior, la nueva y el motivo.
+        </p>
+
+        <div className="mt-4">
+          <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+            Nueva cantidad de láminas
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={sheets}
+            onChange={(event) => setSheets(event.target.value)}
+            className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+          />
+          {isValidSheets && difference !== 0 ? (
+            <p className="mt-1 text-xs text-[var(--primary)]">
+              {difference > 0 ? "+" : ""}
+              {difference.toLocaleString("es-ES")} láminas
+            </p>
+          ) : null}
+        </div>
+
+        <div className="mt-4">
+          <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+            Motivo
+          </label>
+          <select
+            value={reason}
+            onChange={(event) => setReason(event.target.value as SheetAdjustmentReason | "")}
+            className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-3 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+          >
+            <option value="">Selecciona un motivo</option>
+            {reasonOptions.map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm font-medium text-[var(--primary-dark)] transition hover:border-[var(--primary)]"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              if (reason) onConfirm({ sheets: nextSheets, reason });
+            }}
+            disabled={!isValidSheets || difference === 0 || !reason || isConfirming}
+            className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:bg-[var(--primary-muted)]"
+          >
+            Ajustar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,12 +5,14 @@ import {
   fetchDashboardBundles,
   getLocationSummary,
   getMaterialSummary,
+  MISSING_LOCATION_LABEL,
   type DashboardBundle,
   type DashboardFilters,
   type LocationSummary,
   type MaterialSummary,
 } from "@/lib/services/dashboard";
-import { fetchLocations, type Location } from "@/lib/services/locations";
+import { ScrapReport } from "./scrap-report";
+import { fetchLocationCatalog, type Location } from "@/lib/services/locations";
 import { fetchMaterials } from "@/lib/services/materials";
 import { Material } from "@/types/cut-order";
 
@@ -18,15 +20,22 @@ const STATUS_COLORS: Record<string, string> = {
   disponible: "bg-emerald-400",
   asignado: "bg-amber-400",
   usado: "bg-rose-500",
+  descartado: "bg-stone-600",
 };
 
 const STATUS_LABELS: Record<string, string> = {
   disponible: "Disponible",
   asignado: "Asignado",
   usado: "Utilizado",
+  descartado: "Descartado",
 };
 
-type ViewMode = "tabla";
+type ViewMode = "tabla" | "descartes";
+
+const VIEW_LABELS: Record<ViewMode, string> = {
+  tabla: "Bultos",
+  descartes: "Descartes",
+};
 
 export function BundleDashboard() {
   const [bundles, setBundles] = useState<DashboardBundle[]>([]);
@@ -34,12 +43,14 @@ export function BundleDashboard() {
   const [materials, setMaterials] = useState<Material[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>("tabla");
 
   // Filtros
   const [filterUbicacion, setFilterUbicacion] = useState("");
   const [filterMaterial, setFilterMaterial] = useState("");
   const [filterEstado, setFilterEstado] = useState("");
   const [filterOrden, setFilterOrden] = useState("");
+  const [includeCancelled, setIncludeCancelled] = useState(false);
 
   // Material Combobox State
   const [materialSearch, setMaterialSearch] = useState("");
@@ -85,8 +96,9 @@ export function BundleDashboard() {
       try {
         setIsLoading(true);
         const [bundlesData, locationsData, materialsData] = await Promise.all([
-          fetchDashboardBundles(),
-          fetchLocations(),
+          fetchDashboardBundles({ incluirCanceladas: true }),
+          // Incluye las inactivas: pueden seguir teniendo bultos utilizados o descartados
+          fetchLocationCatalog(),
           fetchMaterials(),
         ]);
         setBundles(bundlesData);
@@ -107,6 +119,9 @@ export function BundleDashboard() {
       if (filterUbicacion && bundle.ubicacion !== filterUbicacion) return false;
       if (filterMaterial && String(bundle.materialId) !== String(filterMaterial)) return false;
       if (filterEstado && bundle.estado !== filterEstado) return false;
+      // Los descartados ya no son stock; solo se listan si se filtran
+      if (!filterEstado && bundle.estado === "descartado") return false;
+      if (!includeCancelled && bundle.ordenCancelada) return false;
       if (
         filterOrden &&
         !bundle.ordenCorte.toLowerCase().includes(filterOrden.toLowerCase())
@@ -114,7 +129,7 @@ export function BundleDashboard() {
         return false;
       return true;
     });
-  }, [bundles, filterUbicacion, filterMaterial, filterEstado, filterOrden]);
+  }, [bundles, filterUbicacion, filterMaterial, filterEstado, filterOrden, includeCancelled]);
 
   // Resúmenes
   const locationSummary = useMemo(
@@ -130,15 +145,17 @@ export function BundleDashboard() {
   const totals = useMemo(() => {
     return {
       bultos: filteredBundles.length,
-      laminas: filteredBundles.reduce((acc, b) => acc + b.cantidadLaminas, 0),
+      laminas: locationSummary.reduce((acc, s) => acc + s.totalLaminas, 0),
+      consumidas: locationSummary.reduce((acc, s) => acc + s.laminasConsumidas, 0),
     };
-  }, [filteredBundles]);
+  }, [filteredBundles, locationSummary]);
 
   const clearFilters = () => {
     setFilterUbicacion("");
     setFilterMaterial("");
     setFilterEstado("");
     setFilterOrden("");
+    setIncludeCancelled(false);
   };
 
   if (isLoading) {
@@ -188,6 +205,9 @@ export function BundleDashboard() {
                   {loc.codigo}
                 </option>
               ))}
+              {bundles.some((bundle) => bundle.faltante) ? (
+                <option value={MISSING_LOCATION_LABEL}>Faltantes en conteo</option>
+              ) : null}
             </select>
           </div>
           <div className="relative">
@@ -249,6 +269,7 @@ export function BundleDashboard() {
               <option value="disponible">Disponible</option>
               <option value="asignado">Asignado</option>
               <option value="usado">Utilizado</option>
+              <option value="descartado">Descartado</option>
             </select>
           </div>
           <div>
@@ -263,11 +284,20 @@ export function BundleDashboard() {
               className="mt-1 w-full rounded-md border border-[var(--primary-muted)] bg-white px-3 py-1.5 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
             />
           </div>
+          <label className="flex items-end gap-2 pb-2 text-xs font-medium text-[var(--primary)]">
+            <input
+              type="checkbox"
+              checked={includeCancelled}
+              onChange={(e) => setIncludeCancelled(e.target.checked)}
+              className="h-4 w-4 rounded border-[var(--primary)] text-[var(--primary-dark)] focus:ring-[var(--primary)]"
+            />
+            Incluir órdenes canceladas
+          </label>
         </div>
       </div>
 
       {/* Resumen */}
-      <div className="mt-4 grid grid-cols-2 gap-4 sm:grid-cols-4">
+      <div className="mt-4 grid grid-cols-2 gap-4 sm:grid-cols-5">
         <div className="rounded-md border border-[var(--primary-muted)] bg-white p-4">
           <p className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
             Total Bultos
@@ -284,6 +314,14 @@ export function BundleDashboard() {
             {totals.laminas.toLocaleString("es-ES")}
           </p>
         </div>
+        <div className="rounded-md border border-[var(--primary-muted)] bg-white p-4">
+          <p className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+            Láminas Consumidas
+          </p>
+          <p className="mt-1 text-2xl font-bold text-[var(--primary-dark)]">
+            {totals.consumidas.toLocaleString("es-ES")}
+          </p>
+        </div>
         <div className="rounded-md border border-[var(--primary-muted)] bg-white p-4">
           <p className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
             Ubicaciones
@@ -303,8 +341,23 @@ export function BundleDashboard() {
       </div>
 
       {/* Contenido principal */}
-      <div className="mt-4 flex-1 overflow-hidden rounded-md border border-[var(--primary-muted)] bg-white">
-        <BundleTable bundles={filteredBundles} />
+      <div className="mt-4 flex gap-2">
+        {(Object.keys(VIEW_LABELS) as ViewMode[]).map((mode) => (
+          <button
+            key={mode}
+            onClick={() => setViewMode(mode)}
+            className={`rounded-md border px-4 py-2 text-sm font-medium transition ${
+              viewMode === mode
+                ? "border-[var(--primary)] bg-[var(--primary)] text-white"
+                : "border-[var(--primary-muted)] bg-white text-[var(--primary-dark)] hover:border-[var(--primary)]"
+            }`}
+          >
+            {VIEW_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+      <div className="mt-2 flex-1 overflow-hidden rounded-md border border-[var(--primary-muted)] bg-white">
+        {viewMode === "tabla" ? <BundleTable bundles={filteredBundles} /> : <ScrapReport />}
       </div>
     </div>
   );
@@ -342,9 +395,13 @@ function BundleTable({ bundles }: { bundles: DashboardBundle[] }) {
                 className="hover:bg-[var(--primary-soft)] transition"
               >
                 <td className="px-4 py-3 font-medium text-[var(--primary-dark)]">
-                  #{bundle.numeroBulto ?? "-"}
+                  #{bundle.codigoBulto ?? "-"}
                 </td>
-                <td className="px-4 py-3 text-[var(--primary-dark)]">
+                <td
+                  className={`px-4 py-3 ${
+                    bundle.faltante ? "font-semibold text-rose-600" : "text-[var(--primary-dark)]"
+                  }`}
+                >
                   {bundle.ubicacion}
                 </td>
                 <td className="px-4 py-3 text-[var(--primary-dark)]">
@@ -355,6 +412,11 @@ function BundleTable({ bundles }: { bundles: DashboardBundle[] }) {
                 </td>
                 <td className="px-4 py-3 text-[var(--primary-dark)]">
                   {bundle.cantidadLaminas.toLocaleString("es-ES")}
+                  {bundle.laminasConsumidas > 0 && bundle.estado !== "usado" ? (
+                    <span className="ml-1 text-xs text-[var(--primary)]">
+                      ({bundle.laminasConsumidas.toLocaleString("es-ES")} consumidas)
+                    </span>
+                  ) : null}
                 </td>
                 <td className="px-4 py-3 text-[var(--primary-dark)]">
                   {bundle.numBobina ?? "-"}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useMemo } from "react";
+import { Bundle } from "@/types/cut-order";
+
+type Props = {
+  bundles: Bundle[];
+  activeBundleId: string;
+  onSelect: (bundleId: string) => void;
+  /** Bultos visibles con los filtros actuales; el resto no se puede seleccionar. */
+  selectableIds?: string[];
+};
+
+export function BundleGenealogy({
+  bundles,
+  activeBundleId,
+  onSelect,
+  selectableIds,
+}: Props) {
+  const { root, childrenByParent } = useMemo(() => {
+    const byId = new Map(bundles.map((bundle) => [bundle.id, bundle]));
+    const childrenByParent = new Map<string, Bundle[]>();
+    bundles.forEach((bundle) => {
+      if (!bundle.parentId || !byId.has(bundle.parentId)) return;
+      const list = childrenByParent.get(bundle.parentId) ?? [];
+      list.push(bundle);
+      childrenByParent.set(bundle.parentId, list);
+    });
+
+    let root = byId.get(activeBundleId) ?? null;
+    const visited = new Set<string>();
+    while (root?.parentId && byId.has(root.parentId) && !visited.has(root.id)) {
+      visited.add(root.id);
+      root = byId.get(root.parentId) ?? null;
+    }
+
+    return { root, childrenByParent };
+  }, [bundles, activeBundleId]);
+
+  if (!root || !childrenByParent.has(root.id)) {
+    return (
+      <p className="text-xs text-[var(--primary)]">
+        Este bulto no tiene divisiones.
+      </p>
+    );
+  }
+
+  const renderNode = (bundle: Bundle, depth: number) => {
+    const children = childrenByParent.get(bundle.id) ?? [];
+    const isActive = bundle.id === activeBundleId;
+    const isSelectable = !selectableIds || selectableIds.includes(bundle.id);
+    return (
+      <li key={bundle.id}>
+        <button
+          type="button"
+          onClick={() => onSelect(bundle.id)}
+          disabled={!isSelectable}
+          style={{ paddingLeft: `${depth * 16 + 8}px` }}
+          className={`flex w-full items-center justify-between rounded-md py-1 pr-2 text-left transition ${
+            isActive
+              ? "bg-[var(--primary-soft)] font-semibold text-[var(--primary-dark)]"
+              : "text-[var(--primary)] hover:bg-[var(--primary-soft)]"
+          } disabled:cursor-default disabled:opacity-60 disabled:hover:bg-transparent`}
+        >
+          <span>
+            {depth > 0 ? "└ " : ""}
+            {bundle.name}
+          </span>
+          <span className="text-[11px]">
+            {bundle.sheets.toLocaleString("es-ES")} lám. • {bundle.status}
+          </span>
+        </button>
+        {children.length > 0 ? (
+          <ul>{children.map((child) => renderNode(child, depth + 1))}</ul>
+        ) : null}
+      </li>
+    );
+  };
+
+  return <ul className="space-y-0.5 text-xs">{renderNode(root, 0)}</ul>;
+}
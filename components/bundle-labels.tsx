@@ -0,0 +1,273 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { fetchCutOrder } from "@/lib/services/cut-orders";
+import { createQrCode } from "@/lib/qr-code";
+import { Bundle, CutOrder } from "@/types/cut-order";
+
+type LabelSize = {
+  width: number;
+  height: number;
+};
+
+const LABEL_SIZE_PRESETS: { name: string; size: LabelSize }[] = [
+  { name: "100 × 50 mm", size: { width: 100, height: 50 } },
+  { name: "100 × 150 mm", size: { width: 100, height: 150 } },
+  { name: "80 × 50 mm", size: { width: 80, height: 50 } },
+  { name: "62 × 29 mm", size: { width: 62, height: 29 } },
+];
+
+const DEFAULT_LABEL_SIZE = LABEL_SIZE_PRESETS[0].size;
+const LABEL_SIZE_STORAGE_KEY = "cortes-admin:tamano-etiqueta";
+const MIN_LABEL_MM = 20;
+const MAX_LABEL_MM = 200;
+
+const readStoredLabelSize = (): LabelSize => {
+  try {
+    const stored = JSON.parse(
+      window.localStorage.getItem(LABEL_SIZE_STORAGE_KEY) ?? "null",
+    ) as LabelSize | null;
+    if (stored && stored.width > 0 && stored.height > 0) return stored;
+  } catch {
+    // Un valor corrupto se ignora y se usa el tamaño por defecto.
+  }
+  return DEFAULT_LABEL_SIZE;
+};
+
+/** QR en SVG con el margen de 4 módulos que piden los lectores. */
+function QrCodeSvg({ value, sizeMm }: { value: string; sizeMm: number }) {
+  const modules = useMemo(() => createQrCode(value), [value]);
+  const size = modules.length + 8;
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + 4} ${y + 4}h1v1h-1z` : "")))
+    .join("");
+
+  return (
+    <svg
+      viewBox={`0 0 ${size} ${size}`}
+      shapeRendering="crispEdges"
+      className="shrink-0"
+      // En milímetros para que el tamaño impreso no dependa de la pantalla.
+      style={{ width: `${sizeMm}mm`, height: `${sizeMm}mm` }}
+      role="img"
+      aria-label={`Código QR ${value}`}
+    >
+      <rect width={size} height={size} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
+
+function BundleLabel({
+  order,
+  bundle,
+  size,
+}: {
+  order: CutOrder;
+  bundle: Bundle;
+  size: LabelSize;
+}) {
+  // En etiquetas verticales el QR va arriba y el texto debajo.
+  const isPortrait = size.height > size.width;
+  const qrSize = Math.min(isPortrait ? size.width : size.height, size.width * 0.45) - 6;
+
+  return (
+    <div
+      className="label-sheet flex overflow-hidden bg-white text-black"
+      style={{
+        width: `${size.width}mm`,
+        height: `${size.height}mm`,
+        padding: "3mm",
+        gap: "3mm",
+        flexDirection: isPortrait ? "column" : "row",
+      }}
+    >
+      <QrCodeSvg value={bundle.id} sizeMm={qrSize} />
+      <div className="flex min-w-0 flex-1 flex-col justify-center leading-tight">
+        <p className="truncate text-[9pt] font-semibold uppercase">Orden {order.code}</p>
+        <p className="truncate text-[16pt] font-bold">{bundle.name}</p>
+        <p className="truncate text-[9pt]">{order.material?.nombre ?? "Sin material"}</p>
+        <p className="mt-1 text-[11pt] font-semibold">
+          {bundle.sheets.toLocaleString("es-ES")} láminas
+        </p>
+        <p className="truncate text-[9pt]">Bobina: {bundle.num_bobina?.trim() || "-"}</p>
+        <p className="truncate text-[9pt]">Ubicación: {bundle.currentLocation}</p>
+      </div>
+    </div>
+  );
+}
+
+type Props = {
+  orderId: string | null;
+  /** Ids de los bultos a imprimir; vacío para toda la orden. */
+  bundleIds: string[];
+};
+
+export function BundleLabels({ orderId, bundleIds }: Props) {
+  const [order, setOrder] = useState<CutOrder | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [labelSize, setLabelSize] = useState<LabelSize>(DEFAULT_LABEL_SIZE);
+
+  useEffect(() => {
+    setLabelSize(readStoredLabelSize());
+  }, []);
+
+  useEffect(() => {
+    const loadOrder = async () => {
+      if (!orderId) {
+        setError("Falta indicar la orden.");
+        setIsLoading(false);
+        return;
+      }
+      try {
+        setIsLoading(true);
+        const data = await fetchCutOrder(orderId);
+        if (!data) {
+          setError("No se encontró la orden.");
+        }
+        setOrder(data);
+      } catch (loadError) {
+        setError(
+          loadError instanceof Error ? loadError.message : "No se pudo cargar la orden.",
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadOrder();
+  }, [orderId]);
+
+  const labelBundles = useMemo(() => {
+    if (!order) return [];
+    // Los bultos unidos ya no existen físicamente, salvo que se pidan por id.
+    return bundleIds.length > 0
+      ? order.bundles.filter((bundle) => bundleIds.includes(bundle.id))
+      : order.bundles.filter((bundle) => bundle.status !== "Unido");
+  }, [order, bundleIds]);
+
+  const updateLabelSize = (next: LabelSize) => {
+    setLabelSize(next);
+    const isValid =
+      next.width >= MIN_LABEL_MM
+      && next.width <= MAX_LABEL_MM
+      && next.height >= MIN_LABEL_MM
+      && next.height <= MAX_LABEL_MM;
+    if (isValid) {
+      window.localStorage.setItem(LABEL_SIZE_STORAGE_KEY, JSON.stringify(next));
+    }
+  };
+
+  const presetName =
+    LABEL_SIZE_PRESETS.find(
+      (preset) =>
+        preset.size.width === labelSize.width && preset.size.height === labelSize.height,
+    )?.name ?? "custom";
+
+  const printSize: LabelSize = {
+    width: Math.min(Math.max(labelSize.width || MIN_LABEL_MM, MIN_LABEL_MM), MAX_LABEL_MM),
+    height: Math.min(Math.max(labelSize.height || MIN_LABEL_MM, MIN_LABEL_MM), MAX_LABEL_MM),
+  };
+
+  return (
+    <div className="min-h-full bg-[var(--primary-soft)]/60 print:bg-white">
+      <style>{`
+        @page { size: ${printSize.width}mm ${printSize.height}mm; margin: 0; }
+        @media print {
+          html, body { height: auto; background: #fff; }
+          .label-sheet { break-after: page; }
+        }
+      `}</style>
+
+      <div className="flex flex-wrap items-end gap-4 border-b border-[var(--primary-muted)] bg-white px-6 py-4 shadow-sm print:hidden">
+        <div className="mr-auto">
+          <h2 className="text-2xl font-semibold text-[var(--primary-dark)]">
+            Etiquetas {order ? `de ${order.code}` : ""}
+          </h2>
+          <p className="text-sm text-[var(--primary)]">
+            {labelBundles.length} {labelBundles.length === 1 ? "etiqueta" : "etiquetas"}. Cada
+            QR contiene el id del bulto.
+          </p>
+        </div>
+        <div>
+          <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+            Tamaño
+          </label>
+          <select
+            value={presetName}
+            onChange={(event) => {
+              const preset = LABEL_SIZE_PRESETS.find((item) => item.name === event.target.value);
+              if (preset) updateLabelSize(preset.size);
+            }}
+            className="mt-2 block rounded-md border border-[var(--primary-muted)] px-3 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+          >
+            {LABEL_SIZE_PRESETS.map((preset) => (
+              <option key={preset.name} value={preset.name}>
+                {preset.name}
+              </option>
+            ))}
+            <option value="custom">Personalizado</option>
+          </select>
+        </div>
+        <div>
+          <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+            Ancho (mm)
+          </label>
+          <input
+            type="number"
+            min={MIN_LABEL_MM}
+            max={MAX_LABEL_MM}
+            value={labelSize.width || ""}
+            onChange={(event) =>
+              updateLabelSize({ ...labelSize, width: Number(event.target.value) })
+            }
+            className="mt-2 block w-24 rounded-md border border-[var(--primary-muted)] px-3 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+          />
+        </div>
+        <div>
+          <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+            Alto (mm)
+          </label>
+          <input
+            type="number"
+            min={MIN_LABEL_MM}
+            max={MAX_LABEL_MM}
+            value={labelSize.height || ""}
+            onChange={(event) =>
+              updateLabelSize({ ...labelSize, height: Number(event.target.value) })
+            }
+            className="mt-2 block w-24 rounded-md border border-[var(--primary-muted)] px-3 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => window.print()}
+          disabled={labelBundles.length === 0}
+          className="rounded-md bg-[var(--primary)] px-6 py-2 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:bg-[var(--primary-muted)]"
+        >
+          Imprimir
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="p-6 text-sm text-[var(--primary)] print:hidden">Cargando orden...</p>
+      ) : error ? (
+        <p className="m-6 rounded-md border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700 print:hidden">
+          {error}
+        </p>
+      ) : order && labelBundles.length === 0 ? (
+        <p className="p-6 text-sm text-[var(--primary)] print:hidden">
+          No hay bultos para imprimir.
+        </p>
+      ) : order ? (
+        <div className="flex flex-wrap gap-4 p-6 print:block print:p-0">
+          {labelBundles.map((bundle) => (
+            <div key={bundle.id} className="shadow print:shadow-none">
+              <BundleLabel order={order} bundle={bundle} size={printSize} />
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
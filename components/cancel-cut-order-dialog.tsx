@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+import { CutOrder } from "@/types/cut-order";
+
+type Props = {
+  order: CutOrder;
+  onCancel: () => void;
+  onConfirm: (payload: { reason: string }) => void;
+  isConfirming?: boolean;
+};
+
+export function CancelCutOrderDialog({
+  order,
+  onCancel,
+  onConfirm,
+  isConfirming = false,
+}: Props) {
+  const [reason, setReason] = useState("");
+
+  const blockingBundles = order.bundles.filter(
+    (bundle) => bundle.status === "Asignado" || bundle.status === "Utilizado",
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4"
+      onClick={onCancel}
+    >
+      <div
+        className="w-full max-w-md rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h3 className="text-2xl font-semibold text-[var(--primary-dark)]">
+          Cancelar {order.label}
+        </h3>
+        <p className="mt-2 text-sm text-[var(--primary)]">
+          La orden y sus bultos dejarán de mostrarse en las listas y el dashboard. Podrás
+          consultarla activando el filtro de órdenes canceladas.
+        </p>
+
+        {blockingBundles.length > 0 ? (
+          <p className="mt-4 rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+            No se puede cancelar: {blockingBundles.map((bundle) => bundle.name).join(", ")}{" "}
+            {blockingBundles.length === 1 ? "está asignado o utilizado" : "están asignados o utilizados"}.
+          </p>
+        ) : (
+          <div className="mt-4">
+            <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+              Motivo
+            </label>
+            <textarea
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              rows={3}
+              placeholder="Ej: orden duplicada por error"
+              className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+            />
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm font-medium text-[var(--primary)] transition hover:border-[var(--primary)] hover:text-[var(--primary-dark)]"
+          >
+            Volver
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm({ reason })}
+            className="rounded-md bg-rose-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-rose-700 disabled:cursor-not-allowed disabled:bg-rose-300"
+            disabled={!reason.trim() || blockingBundles.length > 0 || isConfirming}
+          >
+            Cancelar orden
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,40 +2,79 @@
 
 import { useEffect, useMemo, useState } from "react";
 import Image from "next/image";
+import Link from "next/link";
 import { MultiBundleDialog } from "./multi-bundle-dialog";
 import { UpdateBundleDialog } from "./update-bundle-dialog";
 import { SplitBundleDialog } from "./split-bundle-dialog";
+import { AdjustSheetsDialog } from "./adjust-sheets-dialog";
+import { DiscardBundleDialog } from "./discard-bundle-dialog";
+import { MergeBundlesDialog } from "./merge-bundles-dialog";
+import { BundleGenealogy } from "./bundle-genealogy";
+import { EditCutOrderDialog } from "./edit-cut-order-dialog";
+import { CancelCutOrderDialog } from "./cancel-cut-order-dialog";
+import { OrderStatusBadge } from "./order-status-badge";
 import { CutOrder } from "@/types/cut-order";
 import {
+  adjustBundleSheets,
   applyBundleAction,
   ApplyBundleActionInput,
   BundleAction,
+  BundleActionResult,
+  cancelCutOrder,
+  changeCutOrderStatus,
+  discardBundle,
+  mergeBundles,
   splitBundle,
+  SheetAdjustmentReason,
+  SplitBundlePart,
+  undoBundleAction,
 } from "@/lib/services/cut-orders";
 
 type Props = {
   order: CutOrder | null;
   onRequestReload?: () => void;
+  /** Abre el formulario de alta con los datos de la orden. */
+  onDuplicate?: (order: CutOrder) => void;
+  /** Bulto leído con el escáner; cada lectura trae un `nonce` nuevo. */
+  scanFocus?: { bundleId: string; nonce: number } | null;
 };
 
 type SplitBundleSubmission = {
-  sheets: number;
+  parts: SplitBundlePart[];
 };
 
 const STATUS_COLORS: Record<string, string> = {
   disponible: "bg-emerald-400",
   asignado: "bg-amber-400",
   utilizado: "bg-rose-500",
+  unido: "bg-slate-400",
+  descartado: "bg-stone-600",
 };
 
-type ActionFeedback = { type: "success" | "error"; text: string } | null;
+type ActionFeedback = {
+  type: "success" | "error";
+  text: string;
+  undo?: BundleActionResult;
+} | null;
 
 const isBundleAction = (value: string): value is BundleAction => {
-  return value === "mover" || value === "asignar" || value === "utilizar";
+  return (
+    value === "mover" ||
+    value === "asignar" ||
+    value === "desasignar" ||
+    value === "utilizar"
+  );
 };
 
-export function CutOrderPanel({ order, onRequestReload }: Props) {
-  const [selectedBundleId, setSelectedBundleId] = useState<string | null>(null);
+export function CutOrderPanel({
+  order,
+  onRequestReload,
+  onDuplicate,
+  scanFocus = null,
+}: Props) {
+  const [selectedBundleId, setSelectedBundleId] = useState<string | null>(
+    scanFocus?.bundleId ?? null,
+  );
   const [dialogType, setDialogType] = useState<"location" | "order" | null>(
     null
   );
@@ -44,15 +83,40 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
     preset?: string;
   } | null>(null);
   const [bundleStatusFilter, setBundleStatusFilter] = useState<
-    "todos" | "disponible" | "asignado" | "utilizado"
+    "todos" | "disponible" | "asignado" | "utilizado" | "unido" | "descartado"
   >("todos");
   const [bundleLocationFilter, setBundleLocationFilter] =
     useState<string>("todos");
   const [actionFeedback, setActionFeedback] = useState<ActionFeedback>(null);
   const [isProcessingAction, setIsProcessingAction] = useState(false);
   const [isSplitDialogOpen, setIsSplitDialogOpen] = useState(false);
+  const [isAdjustDialogOpen, setIsAdjustDialogOpen] = useState(false);
+  const [isDiscardDialogOpen, setIsDiscardDialogOpen] = useState(false);
+  const [isMergeDialogOpen, setIsMergeDialogOpen] = useState(false);
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
+  const [lastScanNonce, setLastScanNonce] = useState(scanFocus?.nonce ?? null);
+
+  // Un escaneo nuevo selecciona el bulto y quita los filtros que lo ocultarían.
+  if (scanFocus && scanFocus.nonce !== lastScanNonce) {
+    setLastScanNonce(scanFocus.nonce);
+    setSelectedBundleId(scanFocus.bundleId);
+    setBundleStatusFilter("todos");
+    setBundleLocationFilter("todos");
+  }
 
   const bundles = useMemo(() => order?.bundles ?? [], [order]);
+  // Los borradores, las pausadas y las canceladas se consultan pero no admiten
+  // movimientos de bultos.
+  const isLocked =
+    isProcessingAction
+    || order?.status === "Borrador"
+    || order?.status === "Pausada"
+    || order?.status === "Cancelada";
+  const canCancelOrder =
+    order?.status === "Borrador"
+    || order?.status === "Operativa"
+    || order?.status === "Pausada";
 
   const locationOptions = useMemo(() => {
     const unique = Array.from(
@@ -66,9 +130,11 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
   const filteredBundles = useMemo(() => {
     return bundles.filter((bundle) => {
       const normalizedStatus = bundle.status.toLowerCase();
+      // Los bultos unidos solo se listan cuando se filtran explícitamente
       const matchesStatus =
-        bundleStatusFilter === "todos" ||
-        normalizedStatus === bundleStatusFilter;
+        bundleStatusFilter === "todos"
+          ? normalizedStatus !== "unido"
+          : normalizedStatus === bundleStatusFilter;
       const matchesLocation =
         bundleLocationFilter === "todos" ||
         bundle.currentLocation === bundleLocationFilter;
@@ -76,6 +142,32 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
     });
   }, [bundleStatusFilter, bundleLocationFilter, bundles]);
 
+  // Con filtros activos se imprimen solo los bultos listados.
+  const isBundleListFiltered =
+    bundleStatusFilter !== "todos" || bundleLocationFilter !== "todos";
+  const labelsHref = (bundleIds?: string[]) => {
+    const params = new URLSearchParams({ orden: order?.id ?? "" });
+    if (bundleIds) params.set("bultos", bundleIds.join(","));
+    return `/etiquetas?${params.toString()}`;
+  };
+
+  // Los utilizados, unidos y descartados ya no admiten mover ni asignar.
+  const actionableBundles = useMemo(
+    () =>
+      bundles.filter(
+        (bundle) => bundle.status === "Disponible" || bundle.status === "Asignado",
+      ),
+    [bundles],
+  );
+
+  const mergeableBundles = useMemo(
+    () =>
+      bundles.filter(
+        (bundle) => bundle.status === "Disponible" || bundle.status === "Asignado",
+      ),
+    [bundles],
+  );
+
   const effectiveBundleId = useMemo(() => {
     if (
       selectedBundleId &&
@@ -91,14 +183,14 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
   const highlightedBundleId = effectiveBundleId;
   const dialogDisabledActions = useMemo(() => {
     if (!activeBundle) return [];
-    return activeBundle.status === "Asignado" ? [] : ["Utilizar"];
+    return activeBundle.status === "Asignado" ? [] : ["Desasignar", "Utilizar"];
   }, [activeBundle]);
 
   useEffect(() => {
     if (!actionFeedback) return;
     const timeout = window.setTimeout(() => {
       setActionFeedback(null);
-    }, 4000);
+    }, actionFeedback.undo ? 8000 : 4000);
     return () => window.clearTimeout(timeout);
   }, [actionFeedback]);
 
@@ -109,8 +201,8 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
     setActionFeedback(null);
     setIsProcessingAction(true);
     try {
-      await applyBundleAction(payload);
-      setActionFeedback({ type: "success", text: successMessage });
+      const result = await applyBundleAction(payload);
+      setActionFeedback({ type: "success", text: successMessage, undo: result });
       onRequestReload?.();
       return true;
     } catch (actionError) {
@@ -158,6 +250,7 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
     action: string;
     destination: string;
     orderNumber: string;
+    sheets: string;
   }) => {
     if (!activeBundle) return;
     const normalizedAction = payload.action.toLowerCase();
@@ -169,11 +262,18 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
       return;
     }
 
+    const usedSheets = normalizedAction === "utilizar" ? Number(payload.sheets) : null;
+    const isPartialUse = usedSheets !== null && usedSheets < activeBundle.sheets;
+
     const successMessage =
-      normalizedAction === "mover"
+      isPartialUse
+        ? `Se utilizaron ${usedSheets.toLocaleString("es-ES")} láminas del bulto.`
+        : normalizedAction === "mover"
         ? "Bulto movido correctamente."
         : normalizedAction === "asignar"
         ? "Bulto asignado correctamente."
+        : normalizedAction === "desasignar"
+        ? "Bulto devuelto a disponible."
         : "Bulto marcado como utilizado.";
 
     const success = await runBundleAction(
@@ -184,6 +284,7 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
           normalizedAction === "mover" ? payload.destination : undefined,
         orderNumber:
           normalizedAction === "asignar" ? payload.orderNumber : undefined,
+        sheets: usedSheets,
       },
       successMessage
     );
@@ -193,6 +294,114 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
     }
   };
 
+  const handleUndo = async (undo: BundleActionResult) => {
+    setActionFeedback(null);
+    setIsProcessingAction(true);
+    try {
+      await undoBundleAction(undo);
+      setActionFeedback({ type: "success", text: "Acción deshecha." });
+      onRequestReload?.();
+    } catch (undoError) {
+      console.error(undoError);
+      setActionFeedback({
+        type: "error",
+        text:
+          undoError instanceof Error
+            ? undoError.message
+            : "No se pudo deshacer la acción.",
+      });
+    } finally {
+      setIsProcessingAction(false);
+    }
+  };
+
+  const handleCancelOrderConfirm = async (payload: { reason: string }) => {
+    if (!order) return;
+    setIsProcessingAction(true);
+    try {
+      await cancelCutOrder({ orderId: order.id, reason: payload.reason });
+      setActionFeedback({ type: "success", text: "Orden cancelada." });
+      setIsCancelDialogOpen(false);
+      onRequestReload?.();
+    } catch (cancelError) {
+      console.error(cancelError);
+      setActionFeedback({
+        type: "error",
+        text:
+          cancelError instanceof Error
+            ? cancelError.message
+            : "No se pudo cancelar la orden.",
+      });
+    } finally {
+      setIsProcessingAction(false);
+    }
+  };
+
+  const handleStatusChange = async (status: "operativa" | "pausada") => {
+    if (!order) return;
+    setActionFeedback(null);
+    setIsProcessingAction(true);
+    try {
+      await changeCutOrderStatus({ orderId: order.id, status });
+      setActionFeedback({
+        type: "success",
+        text:
+          status === "pausada"
+            ? "Orden pausada."
+            : order.status === "Borrador"
+            ? "Orden activada."
+            : "Orden reanudada.",
+      });
+      onRequestReload?.();
+    } catch (statusError) {
+      console.error(statusError);
+      setActionFeedback({
+        type: "error",
+        text:
+          statusError instanceof Error
+            ? statusError.message
+            : "No se pudo cambiar el estado de la orden.",
+      });
+    } finally {
+      setIsProcessingAction(false);
+    }
+  };
+
+  const handleMergeConfirm = async (payload: { bundleIds: string[] }) => {
+    if (!order) return;
+    setIsProcessingAction(true);
+    try {
+      const expectedVersions = Object.fromEntries(
+        bundles
+          .filter((bundle) => payload.bundleIds.includes(bundle.id))
+          .map((bundle) => [bundle.id, bundle.version]),
+      );
+      const targetId = await mergeBundles({
+        orderId: order.id,
+        bundleIds: payload.bundleIds,
+        expectedVersions,
+      });
+      setActionFeedback({
+        type: "success",
+        text: "Bultos unidos correctamente.",
+      });
+      setIsMergeDialogOpen(false);
+      setSelectedBundleId(targetId);
+      onRequestReload?.();
+    } catch (mergeError) {
+      console.error(mergeError);
+      setActionFeedback({
+        type: "error",
+        text:
+          mergeError instanceof Error
+            ? mergeError.message
+            : "No se pudieron unir los bultos.",
+      });
+    } finally {
+      setIsProcessingAction(false);
+    }
+  };
+
   const handleSplitConfirm = async (payload: SplitBundleSubmission) => {
     if (!activeBundle || !order) return;
     setIsProcessingAction(true);
@@ -200,11 +409,15 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
       await splitBundle({
         bundleId: activeBundle.id,
         orderId: order.id,
-        sheets: payload.sheets,
+        parts: payload.parts,
+        expectedVersion: activeBundle.version,
       });
       setActionFeedback({
         type: "success",
-        text: "Bulto dividido correctamente.",
+        text:
+          payload.parts.length === 1
+            ? "Bulto dividido correctamente."
+            : `Bulto dividido en ${payload.parts.length + 1} partes.`,
       });
       setIsSplitDialogOpen(false);
       onRequestReload?.();
@@ -222,6 +435,79 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
     }
   };
 
+  const handleAdjustConfirm = async (payload: {
+    sheets: number;
+    reason: SheetAdjustmentReason;
+  }) => {
+    if (!activeBundle) return;
+    setActionFeedback(null);
+    setIsProcessingAction(true);
+    try {
+      const result = await adjustBundleSheets({
+        bundleId: activeBundle.id,
+        expectedVersion: activeBundle.version,
+        sheets: payload.sheets,
+        reason: payload.reason,
+      });
+      setActionFeedback({
+        type: "success",
+        text: `Bulto ajustado a ${payload.sheets.toLocaleString("es-ES")} láminas.`,
+        undo: result,
+      });
+      setIsAdjustDialogOpen(false);
+      onRequestReload?.();
+    } catch (adjustError) {
+      console.error(adjustError);
+      setActionFeedback({
+        type: "error",
+        text:
+          adjustError instanceof Error
+            ? adjustError.message
+            : "No se pudo ajustar el bulto.",
+      });
+    } finally {
+      setIsProcessingAction(false);
+    }
+  };
+
+  const handleDiscardConfirm = async (payload: {
+    sheets: number | null;
+    scrapReasonId: string;
+  }) => {
+    if (!activeBundle) return;
+    setActionFeedback(null);
+    setIsProcessingAction(true);
+    try {
+      const result = await discardBundle({
+        bundleId: activeBundle.id,
+        expectedVersion: activeBundle.version,
+        sheets: payload.sheets,
+        scrapReasonId: payload.scrapReasonId,
+      });
+      setActionFeedback({
+        type: "success",
+        text:
+          payload.sheets === null || payload.sheets >= activeBundle.sheets
+            ? "Bulto descartado."
+            : `Se descartaron ${payload.sheets.toLocaleString("es-ES")} láminas del bulto.`,
+        undo: result,
+      });
+      setIsDiscardDialogOpen(false);
+      onRequestReload?.();
+    } catch (discardError) {
+      console.error(discardError);
+      setActionFeedback({
+        type: "error",
+        text:
+          discardError instanceof Error
+            ? discardError.message
+            : "No se pudo descartar el bulto.",
+      });
+    } finally {
+      setIsProcessingAction(false);
+    }
+  };
+
   if (!order) {
     return (
       <section
@@ -277,32 +563,104 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
           </div>
         </div>
         <div className="flex flex-col gap-3 sm:items-end">
-          <span
-            className={`rounded-md px-2 py-1 text-sm font-semibold ${
-              order.status === "Activo" ? "text-emerald-600" : "text-rose-500"
-            }`}
-          >
-            {order.status}
-          </span>
+          <div className="flex items-center gap-3">
+            <OrderStatusBadge status={order.status} className="px-2 py-1 text-sm" />
+            {order.status === "Borrador" || order.status === "Pausada" ? (
+              <button
+                className="rounded-md border border-emerald-200 px-2 py-1 text-sm font-medium text-emerald-700 transition hover:border-emerald-400 hover:bg-emerald-50 disabled:cursor-not-allowed disabled:opacity-50"
+                onClick={() => handleStatusChange("operativa")}
+                disabled={isProcessingAction}
+              >
+                {order.status === "Borrador" ? "Activar" : "Reanudar"}
+              </button>
+            ) : order.status === "Operativa" ? (
+              <button
+                className="rounded-md border border-amber-200 px-2 py-1 text-sm font-medium text-amber-700 transition hover:border-amber-400 hover:bg-amber-50 disabled:cursor-not-allowed disabled:opacity-50"
+                onClick={() => handleStatusChange("pausada")}
+                disabled={isProcessingAction}
+              >
+                Pausar
+              </button>
+            ) : null}
+          </div>
           <div className="flex gap-3">
+            <button
+              className="rounded-md border border-[var(--primary-muted)] px-2 py-2 text-sm font-medium text-[var(--primary-dark)] shadow-sm transition hover:border-[var(--primary)] hover:bg-[var(--primary-soft)] disabled:cursor-not-allowed disabled:opacity-50"
+              onClick={() => setIsEditDialogOpen(true)}
+              disabled={isProcessingAction || order.status === "Cancelada"}
+            >
+              Editar
+            </button>
+            {onDuplicate ? (
+              <button
+                className="rounded-md border border-[var(--primary-muted)] px-2 py-2 text-sm font-medium text-[var(--primary-dark)] shadow-sm transition hover:border-[var(--primary)] hover:bg-[var(--primary-soft)] disabled:cursor-not-allowed disabled:opacity-50"
+                onClick={() => onDuplicate(order)}
+                disabled={isProcessingAction}
+              >
+                Duplicar
+              </button>
+            ) : null}
+            <Link
+              href={labelsHref(
+                isBundleListFiltered ? filteredBundles.map((bundle) => bundle.id) : undefined,
+              )}
+              target="_blank"
+              title={
+                isBundleListFiltered
+                  ? "Imprime las etiquetas de los bultos filtrados"
+                  : "Imprime las etiquetas de toda la orden"
+              }
+              className="rounded-md border border-[var(--primary-muted)] px-2 py-2 text-sm font-medium text-[var(--primary-dark)] shadow-sm transition hover:border-[var(--primary)] hover:bg-[var(--primary-soft)]"
+            >
+              {isBundleListFiltered ? `Etiquetas (${filteredBundles.length})` : "Etiquetas"}
+            </Link>
             <button
               className="rounded-md border border-[var(--primary-muted)] px-2 py-2 text-sm font-medium text-[var(--primary-dark)] shadow-sm transition hover:border-[var(--primary)] hover:bg-[var(--primary-soft)] disabled:cursor-not-allowed disabled:opacity-50"
               onClick={() => setDialogType("location")}
-              disabled={isProcessingAction}
+              disabled={isLocked}
             >
               Mover Varios
             </button>
             <button
               className="rounded-md bg-[var(--primary)] px-2 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:opacity-50"
               onClick={() => setDialogType("order")}
-              disabled={isProcessingAction}
+              disabled={isLocked}
             >
               Asignar Varios
             </button>
+            <button
+              className="rounded-md border border-[var(--primary-muted)] px-2 py-2 text-sm font-medium text-[var(--primary-dark)] shadow-sm transition hover:border-[var(--primary)] hover:bg-[var(--primary-soft)] disabled:cursor-not-allowed disabled:opacity-50"
+              onClick={() => setIsMergeDialogOpen(true)}
+              disabled={isLocked || mergeableBundles.length < 2}
+            >
+              Unir Bultos
+            </button>
+            <button
+              className="rounded-md border border-rose-200 px-2 py-2 text-sm font-medium text-rose-600 shadow-sm transition hover:border-rose-400 hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-50"
+              onClick={() => setIsCancelDialogOpen(true)}
+              disabled={isProcessingAction || !canCancelOrder}
+            >
+              Cancelar Orden
+            </button>
           </div>
         </div>
       </div>
 
+      {order.status === "Cancelada" ? (
+        <p className="mt-4 rounded-md border border-rose-200 bg-rose-50 px-4 py-2 text-sm text-rose-700">
+          Orden cancelada
+          {order.cancellationReason ? `: ${order.cancellationReason}` : "."}
+        </p>
+      ) : order.status === "Pausada" ? (
+        <p className="mt-4 rounded-md border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-700">
+          Orden pausada: reanúdala para mover, asignar o utilizar sus bultos.
+        </p>
+      ) : order.status === "Borrador" ? (
+        <p className="mt-4 rounded-md border border-slate-200 bg-slate-50 px-4 py-2 text-sm text-slate-600">
+          Orden en borrador: actívala cuando esté lista para operar.
+        </p>
+      ) : null}
+
       <div className="flex flex-1 gap-6 overflow-hidden pt-4 min-h-0">
         <div className="flex w-72 min-w-[220px] flex-shrink-0 flex-col space-y-4 overflow-hidden">
           <div className="flex flex-col gap-4 sm:flex-row sm:items-end">
@@ -319,6 +677,8 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
                       | "disponible"
                       | "asignado"
                       | "utilizado"
+                      | "unido"
+                      | "descartado"
                   )
                 }
                 className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-3 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none sm:h-10"
@@ -327,6 +687,8 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
                 <option value="disponible">Disponible</option>
                 <option value="asignado">Asignado</option>
                 <option value="utilizado">Utilizado</option>
+                <option value="unido">Unido</option>
+                <option value="descartado">Descartado</option>
               </select>
             </div>
             <div className="sm:flex-1">
@@ -405,23 +767,59 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
                   </h3>
                 </div>
                 <div className="flex gap-2">
+                  <Link
+                    href={labelsHref([activeBundle.id])}
+                    target="_blank"
+                    className="rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm font-medium text-[var(--primary-dark)] transition hover:border-[var(--primary)] hover:bg-[var(--primary-soft)]"
+                  >
+                    Etiqueta
+                  </Link>
                   <button
                     className="rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm font-medium text-[var(--primary-dark)] transition hover:border-[var(--primary)] hover:bg-[var(--primary-soft)] disabled:cursor-not-allowed disabled:opacity-60"
                     onClick={() => setIsSplitDialogOpen(true)}
                     disabled={
                       !activeBundle ||
-                      isProcessingAction ||
+                      isLocked ||
+                      activeBundle.status === "Unido" ||
+                      activeBundle.status === "Descartado" ||
                       (activeBundle?.sheets ?? 0) <= 1
                     }
                   >
                     Dividir
                   </button>
+                  <button
+                    className="rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm font-medium text-[var(--primary-dark)] transition hover:border-[var(--primary)] hover:bg-[var(--primary-soft)] disabled:cursor-not-allowed disabled:opacity-60"
+                    onClick={() => setIsAdjustDialogOpen(true)}
+                    disabled={
+                      isLocked ||
+                      (activeBundle.status !== "Disponible" &&
+                        activeBundle.status !== "Asignado")
+                    }
+                  >
+                    Ajustar
+                  </button>
+                  <button
+                    className="rounded-md border border-rose-200 px-4 py-2 text-sm font-medium text-rose-600 transition hover:border-rose-400 hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-60"
+                    onClick={() => setIsDiscardDialogOpen(true)}
+                    disabled={
+                      isLocked ||
+                      (activeBundle.status !== "Disponible" &&
+                        activeBundle.status !== "Asignado")
+                    }
+                  >
+                    Descartar
+                  </button>
                   <button
                     className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-medium text-white transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:opacity-60"
                     onClick={() =>
                       setBundleDialogConfig({ title: "Actualizar Bulto" })
                     }
-                    disabled={!activeBundle || isProcessingAction}
+                    disabled={
+                      !activeBundle ||
+                      isLocked ||
+                      (activeBundle.status !== "Disponible" &&
+                        activeBundle.status !== "Asignado")
+                    }
                   >
                     Actualizar
                   </button>
@@ -485,6 +883,20 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
                 </div>
               </div>
 
+              <div className="mt-6">
+                <p className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+                  Genealogía
+                </p>
+                <div className="mt-3 max-h-40 overflow-y-auto rounded-md border border-dashed border-[var(--primary-muted)] p-3">
+                  <BundleGenealogy
+                    bundles={order.bundles}
+                    activeBundleId={activeBundle.id}
+                    onSelect={setSelectedBundleId}
+                    selectableIds={filteredBundles.map((bundle) => bundle.id)}
+                  />
+                </div>
+              </div>
+
               <div className="mt-6 flex flex-1 flex-col overflow-hidden">
                 <p className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
                   Historial
@@ -494,10 +906,22 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
                     {activeBundle.history.map((entry, index) => (
                       <div
                         key={`${entry.action}-${entry.date}-${entry.location}-${index}`}
-                        className="grid grid-cols-[1.5fr_1fr_auto]"
+                        className={`grid grid-cols-[1.5fr_1fr_auto] ${
+                          entry.sheetChange
+                            ? "rounded-md bg-amber-50 px-2 py-1 text-amber-800"
+                            : ""
+                        } ${entry.reverted ? "line-through opacity-60" : ""}`}
                       >
                         <span className="font-medium text-[var(--primary-dark)]">
                           {entry.action}
+                          {entry.reverted ? " (deshecho)" : ""}
+                          {entry.sheetChange ? (
+                            <span className="block font-normal text-amber-700">
+                              {entry.sheetChange.before.toLocaleString("es-ES")} →{" "}
+                              {entry.sheetChange.after.toLocaleString("es-ES")} lám. •{" "}
+                              {entry.sheetChange.reason}
+                            </span>
+                          ) : null}
                         </span>
                         <span>{entry.location}</span>
                         <span>{entry.date}</span>
@@ -517,7 +941,7 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
       {dialogType ? (
         <MultiBundleDialog
           type={dialogType}
-          bundles={order.bundles}
+          bundles={actionableBundles}
           onCancel={() => setDialogType(null)}
           onConfirm={handleMultiConfirm}
           isConfirming={isProcessingAction}
@@ -542,6 +966,50 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
           bundle={activeBundle}
           onCancel={() => setIsSplitDialogOpen(false)}
           onConfirm={handleSplitConfirm}
+          isConfirming={isProcessingAction}
+        />
+      ) : null}
+      {isAdjustDialogOpen && activeBundle ? (
+        <AdjustSheetsDialog
+          bundle={activeBundle}
+          onCancel={() => setIsAdjustDialogOpen(false)}
+          onConfirm={handleAdjustConfirm}
+          isConfirming={isProcessingAction}
+        />
+      ) : null}
+      {isDiscardDialogOpen && activeBundle ? (
+        <DiscardBundleDialog
+          bundle={activeBundle}
+          onCancel={() => setIsDiscardDialogOpen(false)}
+          onConfirm={handleDiscardConfirm}
+          isConfirming={isProcessingAction}
+        />
+      ) : null}
+      {isEditDialogOpen ? (
+        <EditCutOrderDialog
+          order={order}
+          onCancel={() => setIsEditDialogOpen(false)}
+          onSaved={() => {
+            setIsEditDialogOpen(false);
+            setActionFeedback({ type: "success", text: "Orden actualizada correctamente." });
+            onRequestReload?.();
+          }}
+        />
+      ) : null}
+      {isCancelDialogOpen ? (
+        <CancelCutOrderDialog
+          order={order}
+          onCancel={() => setIsCancelDialogOpen(false)}
+          onConfirm={handleCancelOrderConfirm}
+          isConfirming={isProcessingAction}
+        />
+      ) : null}
+      {isMergeDialogOpen ? (
+        <MergeBundlesDialog
+          bundles={mergeableBundles}
+          onCancel={() => setIsMergeDialogOpen(false)}
+          onConfirm={handleMergeConfirm}
+          isConfirming={isProcessingAction}
         />
       ) : null}
       {actionFeedback ? (
@@ -565,6 +1033,16 @@ export function CutOrderPanel({ order, onRequestReload }: Props) {
             >
               {actionFeedback.text}
             </span>
+            {actionFeedback.undo ? (
+              <button
+                type="button"
+                onClick={() => handleUndo(actionFeedback.undo!)}
+                disabled={isProcessingAction}
+                className="font-semibold text-[var(--primary)] underline-offset-2 transition hover:text-[var(--primary-dark)] hover:underline disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Deshacer
+              </button>
+            ) : null}
             <button
               type="button"
               onClick={() => setActionFeedback(null)}
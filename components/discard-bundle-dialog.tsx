@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fetchScrapReasons, type ScrapReason } from "@/lib/services/scrap-reasons";
+import { Bundle } from "@/types/cut-order";
+
+type DiscardMode = "bulto" | "laminas";
+
+type Props = {
+  bundle: Bundle;
+  onCancel: () => void;
+  onConfirm: (payload: { sheets: number | null; scrapReasonId: string }) => void;
+  isConfirming?: boolean;
+};
+
+export function DiscardBundleDialog({
+  bundle,
+  onCancel,
+  onConfirm,
+  isConfirming = false,
+}: Props) {
+  const [mode, setMode] = useState<DiscardMode>("bulto");
+  const [sheets, setSheets] = useState("");
+  const [reasonId, setReasonId] = useState("");
+  const [reasons, setReasons] = useState<ScrapReason[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReasons = async () => {
+      try {
+        const data = await fetchScrapReasons();
+        setReasons(data.filter((reason) => reason.activo));
+      } catch (loadError) {
+        setError(
+          loadError instanceof Error
+            ? loadError.message
+            : "No se pudieron cargar los motivos de descarte.",
+        );
+      }
+    };
+    loadReasons();
+  }, []);
+
+  const discardedSheets = Number(sheets);
+  const isValidSheets =
+    Number.isInteger(discardedSheets)
+    && discardedSheets > 0
+    && discardedSheets <= bundle.sheets;
+  const canConfirm = Boolean(reasonId) && (mode === "bulto" || isValidSheets);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4"
+      onClick={onCancel}
+    >
+      <div
+        className="w-full max-w-md rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h3 className="text-2xl font-semibold text-[var(--primary-dark)]">
+          Descartar {bundle.name}
+        </h3>
+        <p className="mt-2 text-sm text-[var(--primary)]">
+          Lo descartado deja de contar como stock y queda en el informe de desperdicio.
+        </p>
+
+        <div className="mt-4 flex gap-2">
+          {(
+            [
+              { value: "bulto", label: "Bulto entero" },
+              { value: "laminas", label: "Algunas láminas" },
+            ] as const
+          ).map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setMode(option.value)}
+              className={`rounded-md border px-3 py-1.5 text-xs font-semibold uppercase tracking-wide transition ${
+                mode === option.value
+                  ? "border-[var(--primary)] bg-[var(--primary)] text-white"
+                  : "border-[var(--primary-muted)] text-[var(--primary)] hover:border-[var(--primary)]"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {mode === "laminas" ? (
+          <div className="mt-4">
+            <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+              Láminas a descartar (de {bundle.sheets.toLocaleString("es-ES")})
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={bundle.sheets}
+              value={sheets}
+              onChange={(event) => setSheets(event.target.value)}
+              className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+            />
+          </div>
+        ) : null}
+
+        <div className="mt-4">
+          <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+            Motivo
+          </label>
+          <select
+            value={reasonId}
+            onChange={(event) => setReasonId(event.target.value)}
+            className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-3 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+          >
+            <option value="">Selecciona un motivo</option>
+            {reasons.map((reason) => (
+              <option key={reason.id} value={reason.id}>
+                {reason.nombre}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {error ? (
+          <p className="mt-4 rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+            {error}
+          </p>
+        ) : null}
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm font-medium text-[var(--primary)] transition hover:border-[var(--primary)] hover:text-[var(--primary-dark)]"
+          >
+            Volver
+          </button>
+          <button
+            type="button"
+            onClick={() =>
+              onConfirm({
+                sheets: mode === "laminas" ? discardedSheets : null,
+                scrapReasonId: reasonId,
+              })
+            }
+            disabled={!canConfirm || isConfirming}
+            className="rounded-md bg-rose-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-rose-700 disabled:cursor-not-allowed disabled:bg-rose-300"
+          >
+            Descartar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
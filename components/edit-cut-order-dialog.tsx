@@ -0,0 +1,274 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import { fetchOrderAudit, updateCutOrder } from "@/lib/services/cut-orders";
+import { fetchLocations, type Location } from "@/lib/services/locations";
+import { fetchMaterials } from "@/lib/services/materials";
+import { CutOrder, Material, OrderAuditEntry } from "@/types/cut-order";
+import { LocationSelect } from "./location-select";
+
+type NewBundleInput = {
+  id: string;
+  location: string;
+  sheets: string;
+  num_bobina: string;
+};
+
+type Props = {
+  order: CutOrder;
+  onCancel: () => void;
+  onSaved: () => void;
+};
+
+let newBundleSequence = 0;
+const createNewBundle = (): NewBundleInput => {
+  newBundleSequence += 1;
+  return { id: `nuevo-${newBundleSequence}`, location: "", sheets: "", num_bobina: "" };
+};
+
+export function EditCutOrderDialog({ order, onCancel, onSaved }: Props) {
+  const [code, setCode] = useState(order.code);
+  const [date, setDate] = useState(order.rawDate ?? "");
+  const [materialId, setMaterialId] = useState(order.material?.id ?? "");
+  const [newBundles, setNewBundles] = useState<NewBundleInput[]>([]);
+  const [materials, setMaterials] = useState<Material[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [isLoadingLocations, setIsLoadingLocations] = useState(true);
+  const [auditEntries, setAuditEntries] = useState<OrderAuditEntry[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        setIsLoadingLocations(true);
+        const [locationData, materialData] = await Promise.all([
+          fetchLocations(),
+          fetchMaterials(),
+        ]);
+        setLocations(locationData);
+        setMaterials(materialData);
+      } catch (loadError) {
+        console.error("Error al cargar ubicaciones y materiales:", loadError);
+      } finally {
+        setIsLoadingLocations(false);
+      }
+    };
+    loadOptions();
+  }, []);
+
+  useEffect(() => {
+    const loadAudit = async () => {
+      try {
+        setAuditEntries(await fetchOrderAudit(order.id));
+      } catch (loadError) {
+        console.error("Error al cargar la auditoría:", loadError);
+      }
+    };
+    loadAudit();
+  }, [order.id]);
+
+  // El material actual puede estar inactivo; se mantiene como opción.
+  const materialOptions =
+    order.material && !materials.some((material) => material.id === order.material?.id)
+      ? [order.material, ...materials]
+      : materials;
+
+  const updateNewBundle = (id: string, patch: Partial<NewBundleInput>) => {
+    setNewBundles((prev) =>
+      prev.map((bundle) => (bundle.id === id ? { ...bundle, ...patch } : bundle)),
+    );
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    try {
+      setIsSubmitting(true);
+      await updateCutOrder({
+        orderId: order.id,
+        code,
+        date,
+        materialId: materialId || null,
+        newBundles: newBundles.map((bundle) => ({
+          name: "",
+          currentLocation: bundle.location || undefined,
+          sheets: bundle.sheets ? Number(bundle.sheets) : undefined,
+          num_bobina: bundle.num_bobina,
+        })),
+      });
+      onSaved();
+    } catch (submitError) {
+      setError(
+        submitError instanceof Error ? submitError.message : "No se pudo guardar la orden.",
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4"
+      onClick={onCancel}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h3 className="text-2xl font-semibold text-[var(--primary-dark)]">
+          Editar {order.label}
+        </h3>
+
+        <div className="mt-5 grid gap-4 sm:grid-cols-3">
+          <div>
+            <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+              # Orden
+            </label>
+            <input
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+              className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+            />
+          </div>
+          <div>
+            <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+              Fecha
+            </label>
+            <input
+              type="date"
+              value={date}
+              onChange={(event) => setDate(event.target.value)}
+              className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+            />
+          </div>
+          <div>
+            <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+              Tipo de Material
+            </label>
+            <select
+              value={materialId}
+              onChange={(event) => setMaterialId(event.target.value)}
+              className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-3 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+            >
+              <option value="">Sin material</option>
+              {materialOptions.map((material) => (
+                <option key={material.id} value={material.id}>
+                  {material.nombre}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="mt-6 rounded-md border border-[var(--primary-muted)] bg-[var(--primary-soft)] p-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-lg font-semibold text-[var(--primary-dark)]">
+              Agregar bultos
+            </h4>
+            <button
+              type="button"
+              onClick={() => setNewBundles((prev) => [...prev, createNewBundle()])}
+              className="text-sm font-semibold text-[var(--primary)] underline-offset-2 hover:text-[var(--primary-dark)] hover:underline"
+            >
+              + Agregar bulto
+            </button>
+          </div>
+          <div className="mt-3 space-y-3">
+            {newBundles.length === 0 ? (
+              <p className="rounded-md border border-dashed border-[var(--primary-muted)] bg-white px-4 py-3 text-sm text-[var(--primary)]">
+                Los bultos nuevos se numeran a continuación de los existentes.
+              </p>
+            ) : (
+              newBundles.map((bundle) => (
+                <div
+                  key={bundle.id}
+                  className="grid gap-3 rounded-md border border-[var(--primary-muted)] bg-white px-4 py-3 text-sm sm:grid-cols-[1.4fr_1fr_1fr_auto] sm:items-center"
+                >
+                  <LocationSelect
+                    value={bundle.location}
+                    onChange={(value) => updateNewBundle(bundle.id, { location: value })}
+                    locations={locations}
+                    disabled={isLoadingLocations}
+                    placeholder="Ubicación"
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    value={bundle.sheets}
+                    placeholder="Láminas"
+                    onChange={(event) => updateNewBundle(bundle.id, { sheets: event.target.value })}
+                    className="rounded-md border border-[var(--primary-muted)] px-3 py-1.5 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+                  />
+                  <input
+                    value={bundle.num_bobina}
+                    placeholder="Num. bobina"
+                    onChange={(event) =>
+                      updateNewBundle(bundle.id, { num_bobina: event.target.value })
+                    }
+                    className="rounded-md border border-[var(--primary-muted)] px-3 py-1.5 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setNewBundles((prev) => prev.filter((item) => item.id !== bundle.id))
+                    }
+                    className="rounded-md border border-[var(--primary-muted)] px-3 py-1.5 text-sm text-[var(--primary)] transition hover:border-[var(--primary)]"
+                    aria-label="Quitar bulto"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div className="mt-6">
+          <p className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+            Cambios registrados
+          </p>
+          <div className="mt-2 max-h-40 space-y-1 overflow-y-auto rounded-md border border-dashed border-[var(--primary-muted)] p-3 text-xs text-[var(--primary)]">
+            {auditEntries.length === 0 ? (
+              <p>La orden no tiene cambios desde su creación.</p>
+            ) : (
+              auditEntries.map((entry) => (
+                <div key={entry.id} className="grid grid-cols-[1fr_2fr_auto] gap-2">
+                  <span className="font-medium text-[var(--primary-dark)]">{entry.field}</span>
+                  <span>
+                    {entry.previous} → {entry.next}
+                  </span>
+                  <span>{entry.date}</span>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        {error ? (
+          <p className="mt-4 rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+            {error}
+          </p>
+        ) : null}
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm font-medium text-[var(--primary)] transition hover:border-[var(--primary)] hover:text-[var(--primary-dark)]"
+          >
+            Cancelar
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:bg-[var(--primary-muted)]"
+          >
+            {isSubmitting ? "Guardando..." : "Guardar cambios"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
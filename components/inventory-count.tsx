@@ -0,0 +1,470 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useRef, useState } from "react";
+import { LocationSelect } from "@/components/location-select";
+import { resolveScan } from "@/lib/services/bundle-scan";
+import {
+  applyCountAdjustment,
+  closeInventoryCount,
+  fetchInventoryCount,
+  fetchInventoryCounts,
+  inventoryDiscrepancyLabels,
+  saveInventoryCountLines,
+  startInventoryCount,
+  undoCountAdjustment,
+  type CountedBundleInput,
+  type InventoryCount,
+  type InventoryCountSummary,
+  type ReconciliationRow,
+} from "@/lib/services/inventory-counts";
+import { fetchLocations, type Location } from "@/lib/services/locations";
+
+const DATETIME_FORMATTER = new Intl.DateTimeFormat("es-AR", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+const discrepancyStyles = {
+  faltante: "bg-rose-100 text-rose-700",
+  inesperado: "bg-amber-100 text-amber-700",
+  diferencia: "bg-sky-100 text-sky-700",
+} as const;
+
+const adjustmentLabel = (row: ReconciliationRow, locationCode: string) => {
+  if (row.discrepancy === "faltante") return "Quitar de la ubicación";
+  if (row.discrepancy === "inesperado") return `Pasar a ${locationCode}`;
+  return "Corregir láminas";
+};
+
+const toLines = (rows: ReconciliationRow[]): CountedBundleInput[] =>
+  rows
+    .filter((row) => row.found)
+    .map((row) => ({ bundleId: row.bundleId, countedSheets: row.countedSheets }));
+
+/**
+ * Conteo físico de una ubicación: se escanean o marcan los bultos encontrados
+ * con sus láminas y se concilia contra lo que registra el sistema.
+ */
+export function InventoryCounts() {
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [counts, setCounts] = useState<InventoryCountSummary[]>([]);
+  const [newLocation, setNewLocation] = useState("");
+  const [count, setCount] = useState<InventoryCount | null>(null);
+  const [scanValue, setScanValue] = useState("");
+  const [sheetDrafts, setSheetDrafts] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const loadCounts = useCallback(async () => {
+    try {
+      const [countsData, locationsData] = await Promise.all([
+        fetchInventoryCounts(),
+        fetchLocations(),
+      ]);
+      setCounts(countsData);
+      setLocations(locationsData);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "No se pudieron cargar los conteos.");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCounts();
+  }, [loadCounts]);
+
+  const isOpen = count?.status === "abierto";
+
+  useEffect(() => {
+    if (isOpen && !isProcessing) scanInputRef.current?.focus();
+  }, [isOpen, isProcessing]);
+
+  const run = async (task: () => Promise<void>, fallback: string) => {
+    setError(null);
+    setIsProcessing(true);
+    try {
+      await task();
+    } catch (taskError) {
+      setError(taskError instanceof Error ? taskError.message : fallback);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const openCount = (countId: string) =>
+    run(async () => {
+      setCount(await fetchInventoryCount(countId));
+      setSheetDrafts({});
+    }, "No se pudo abrir el conteo.");
+
+  const handleStart = () =>
+    run(async () => {
+      const countId = await startInventoryCount(newLocation);
+      setNewLocation("");
+      setCount(await fetchInventoryCount(countId));
+      setSheetDrafts({});
+      await loadCounts();
+    }, "No se pudo iniciar el conteo.");
+
+  const saveLines = async (lines: CountedBundleInput[]) => {
+    if (!count) return;
+    await saveInventoryCountLines(count.id, lines);
+    setCount(await fetchInventoryCount(count.id));
+  };
+
+  const handleScan = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const code = scanValue.trim();
+    setScanValue("");
+    if (!code || !count || isProcessing) return;
+
+    run(async () => {
+      const target = await resolveScan(code);
+      if (target.kind !== "bundle") {
+        throw new Error(`"${code}" no es una etiqueta de bulto.`);
+      }
+      if (count.rows.some((row) => row.bundleId === target.bundleId && row.found)) {
+        throw new Error("Ese bulto ya fue contado.");
+      }
+      await saveLines([
+        ...toLines(count.rows),
+        { bundleId: target.bundleId, countedSheets: null },
+      ]);
+    }, "No se pudo leer el código.");
+  };
+
+  const toggleFound = (row: ReconciliationRow) => {
+    if (!count) return;
+    run(
+      () =>
+        saveLines(
+          row.found
+            ? toLines(count.rows).filter((line) => line.bundleId !== row.bundleId)
+            : [...toLines(count.rows), { bundleId: row.bundleId, countedSheets: null }],
+        ),
+      "No se pudo guardar el conteo.",
+    );
+  };
+
+  const saveCountedSheets = (row: ReconciliationRow) => {
+    if (!count) return;
+    const draft = sheetDrafts[row.bundleId];
+    if (draft === undefined) return;
+    const countedSheets = draft.trim() === "" ? null : Number(draft);
+    if (countedSheets === row.countedSheets) return;
+
+    run(async () => {
+      await saveLines(
+        toLines(count.rows).map((line) =>
+          line.bundleId === row.bundleId ? { ...line, countedSheets } : line,
+        ),
+      );
+      setSheetDrafts((prev) => {
+        const next = { ...prev };
+        delete next[row.bundleId];
+        return next;
+      });
+    }, "No se pudieron guardar las láminas contadas.");
+  };
+
+  const handleAdjust = (row: ReconciliationRow) => {
+    if (!count) return;
+    run(async () => {
+      await applyCountAdjustment(count.id, row.bundleId);
+      setCount(await fetchInventoryCount(count.id));
+    }, "No se pudo aplicar el ajuste.");
+  };
+
+  const handleUndoAdjustment = (row: ReconciliationRow) => {
+    if (!count) return;
+    run(async () => {
+      await undoCountAdjustment(count.id, row.bundleId);
+      setCount(await fetchInventoryCount(count.id));
+    }, "No se pudo deshacer el ajuste.");
+  };
+
+  const handleClose = () => {
+    if (!count) return;
+    run(async () => {
+      await closeInventoryCount(count.id);
+      setCount(await fetchInventoryCount(count.id));
+      await loadCounts();
+    }, "No se pudo cerrar el conteo.");
+  };
+
+  const handleBack = () => {
+    setCount(null);
+    setError(null);
+    loadCounts();
+  };
+
+  if (!count) {
+    const openLocations = new Set(
+      counts.filter((item) => item.status === "abierto").map((item) => item.locationCode),
+    );
+
+    return (
+      <section className="mx-auto max-w-4xl p-6">
+        <div className="rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-sm">
+          <h2 className="text-2xl font-semibold text-[var(--primary-dark)]">
+            Conteo de inventario
+          </h2>
+          <p className="mt-1 text-sm text-[var(--primary)]">
+            Cuenta los bultos de una ubicación y compáralos con lo que registra el sistema.
+          </p>
+          <div className="mt-5 flex flex-wrap items-end gap-3">
+            <div className="min-w-[12rem] flex-1">
+              <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+                Ubicación
+              </label>
+              <LocationSelect
+                value={newLocation}
+                onChange={setNewLocation}
+                locations={locations.filter((location) => !openLocations.has(location.codigo))}
+                disabled={isProcessing}
+                className="mt-2"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={handleStart}
+              disabled={!newLocation || isProcessing}
+              className="rounded-md bg-[var(--primary)] px-6 py-2 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:bg-[var(--primary-muted)]"
+            >
+              Iniciar conteo
+            </button>
+          </div>
+          {error ? (
+            <p className="mt-4 rounded-md border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+              {error}
+            </p>
+          ) : null}
+        </div>
+
+        <div className="mt-4 rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-sm">
+          <h3 className="text-lg font-semibold text-[var(--primary-dark)]">Conteos</h3>
+          {counts.length === 0 ? (
+            <p className="mt-4 rounded-md border border-dashed border-[var(--primary-muted)] px-4 py-6 text-center text-sm text-[var(--primary)]">
+              Todavía no se hizo ningún conteo.
+            </p>
+          ) : (
+            <ul className="mt-4 divide-y divide-[var(--primary-muted)]">
+              {counts.map((item) => (
+                <li key={item.id} className="flex items-center justify-between gap-3 py-3">
+                  <div>
+                    <p className="text-base font-semibold text-[var(--primary-dark)]">
+                      {item.locationCode}{" "}
+                      <span
+                        className={`ml-2 rounded-full px-2 py-0.5 text-xs font-semibold ${
+                          item.status === "abierto"
+                            ? "bg-emerald-100 text-emerald-700"
+                            : "bg-slate-100 text-slate-600"
+                        }`}
+                      >
+                        {item.status === "abierto" ? "Abierto" : "Cerrado"}
+                      </span>
+                    </p>
+                    <p className="text-sm text-[var(--primary)]">
+                      Iniciado {DATETIME_FORMATTER.format(new Date(item.startedAt))} •{" "}
+                      {item.foundCount} contados • {item.adjustmentCount} ajustes
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => openCount(item.id)}
+                    disabled={isProcessing}
+                    className="rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm font-semibold text-[var(--primary-dark)] disabled:opacity-50"
+                  >
+                    {item.status === "abierto" ? "Continuar" : "Ver informe"}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </section>
+    );
+  }
+
+  const pendingCount = count.rows.filter(
+    (row) => row.discrepancy && !row.adjustmentBatchId,
+  ).length;
+  const totals = (["faltante", "inesperado", "diferencia"] as const).map((kind) => ({
+    kind,
+    total: count.rows.filter((row) => row.discrepancy === kind).length,
+  }));
+
+  return (
+    <section className="mx-auto max-w-5xl p-6">
+      <div className="rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h2 className="text-2xl font-semibold text-[var(--primary-dark)]">
+              Conteo de {count.locationCode}
+            </h2>
+            <p className="mt-1 text-sm text-[var(--primary)]">
+              Iniciado {DATETIME_FORMATTER.format(new Date(count.startedAt))}
+              {count.closedAt
+                ? ` • Cerrado ${DATETIME_FORMATTER.format(new Date(count.closedAt))}`
+                : ""}
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={handleBack}
+              disabled={isProcessing}
+              className="rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm font-semibold text-[var(--primary-dark)] disabled:opacity-50"
+            >
+              Volver
+            </button>
+            {isOpen ? (
+              <button
+                type="button"
+                onClick={handleClose}
+                disabled={isProcessing}
+                className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:bg-[var(--primary-muted)]"
+              >
+                Cerrar conteo
+              </button>
+            ) : null}
+          </div>
+        </div>
+
+        {isOpen ? (
+          <form onSubmit={handleScan} className="mt-5">
+            <input
+              ref={scanInputRef}
+              value={scanValue}
+              onChange={(event) => setScanValue(event.target.value)}
+              disabled={isProcessing}
+              autoComplete="off"
+              placeholder="Escanea las etiquetas de los bultos encontrados"
+              className="w-full rounded-md border-2 border-[var(--primary)] px-4 py-3 text-base text-[var(--primary-dark)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+            />
+          </form>
+        ) : null}
+
+        <div className="mt-4 flex flex-wrap gap-3 text-sm">
+          {totals.map(({ kind, total }) => (
+            <span key={kind} className={`rounded-md px-3 py-1 font-semibold ${discrepancyStyles[kind]}`}>
+              {inventoryDiscrepancyLabels[kind]}: {total}
+            </span>
+          ))}
+          {isOpen && pendingCount > 0 ? (
+            <span className="px-1 py-1 text-[var(--primary)]">
+              {pendingCount} {pendingCount === 1 ? "ajuste pendiente" : "ajustes pendientes"}
+            </span>
+          ) : null}
+        </div>
+
+        {error ? (
+          <p className="mt-4 rounded-md border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+            {error}
+          </p>
+        ) : null}
+      </div>
+
+      <div className="mt-4 overflow-x-auto rounded-md border border-[var(--primary-muted)] bg-white shadow-sm">
+        {count.rows.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-[var(--primary)]">
+            El sistema no registra bultos en {count.locationCode}. Escanea los que encuentres.
+          </p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead className="bg-[var(--primary-soft)] text-left text-xs uppercase tracking-wide text-[var(--primary)]">
+              <tr>
+                <th className="px-4 py-3">Encontrado</th>
+                <th className="px-4 py-3">Bulto</th>
+                <th className="px-4 py-3">Ubicación en sistema</th>
+                <th className="px-4 py-3 text-right">Láminas en sistema</th>
+                <th className="px-4 py-3">Láminas contadas</th>
+                <th className="px-4 py-3">Resultado</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--primary-muted)]">
+              {count.rows.map((row) => (
+                <tr key={row.bundleId} className="text-[var(--primary-dark)]">
+                  <td className="px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={row.found}
+                      onChange={() => toggleFound(row)}
+                      disabled={!isOpen || isProcessing || Boolean(row.adjustmentBatchId)}
+                      className="h-4 w-4 accent-[var(--primary)]"
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <p className="font-semibold">{row.name}</p>
+                    <p className="text-xs text-[var(--primary)]">{row.orderCode}</p>
+                  </td>
+                  <td className="px-4 py-3">{row.locationCode ?? "Sin ubicación"}</td>
+                  <td className="px-4 py-3 text-right">{row.sheets.toLocaleString("es-ES")}</td>
+                  <td className="px-4 py-3">
+                    {row.found ? (
+                      <input
+                        type="number"
+                        min={1}
+                        value={sheetDrafts[row.bundleId] ?? row.countedSheets ?? ""}
+                        onChange={(event) =>
+                          setSheetDrafts((prev) => ({
+                            ...prev,
+                            [row.bundleId]: event.target.value,
+                          }))
+                        }
+                        onBlur={() => saveCountedSheets(row)}
+                        disabled={!isOpen || isProcessing || Boolean(row.adjustmentBatchId)}
+                        placeholder="Sin contar"
+                        className="w-28 rounded-md border border-[var(--primary-muted)] px-2 py-1 text-sm focus:border-[var(--primary)] focus:outline-none"
+                      />
+                    ) : (
+                      "-"
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    {row.discrepancy ? (
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-xs font-semibold ${discrepancyStyles[row.discrepancy]}`}
+                      >
+                        {inventoryDiscrepancyLabels[row.discrepancy]}
+                        {row.adjustmentBatchId ? " • ajustado" : ""}
+                      </span>
+                    ) : (
+                      <span className="rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-semibold text-emerald-700">
+                        Coincide
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {isOpen && row.discrepancy ? (
+                      row.adjustmentBatchId ? (
+                        <button
+                          type="button"
+                          onClick={() => handleUndoAdjustment(row)}
+                          disabled={isProcessing}
+                          className="rounded-md border border-[var(--primary-muted)] px-3 py-1 text-xs font-semibold text-[var(--primary-dark)] disabled:opacity-50"
+                        >
+                          Deshacer
+                        </button>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => handleAdjust(row)}
+                          disabled={isProcessing}
+                          className="rounded-md bg-[var(--primary)] px-3 py-1 text-xs font-semibold text-white transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:bg-[var(--primary-muted)]"
+                        >
+                          {adjustmentLabel(row, count.locationCode)}
+                        </button>
+                      )
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,280 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import {
+  createLocation,
+  fetchLocationCatalog,
+  mergeLocations,
+  renameLocation,
+  setLocationActive,
+  type LocationCatalogEntry,
+} from "@/lib/services/locations";
+
+type EditState =
+  | { kind: "rename"; id: string; value: string }
+  | { kind: "merge"; id: string; targetId: string };
+
+/**
+ * Catálogo de ubicaciones: solo las que figuran aquí y están activas se pueden
+ * usar como destino al cargar, mover o dividir bultos.
+ */
+export function LocationCatalog() {
+  const [locations, setLocations] = useState<LocationCatalogEntry[]>([]);
+  const [newCode, setNewCode] = useState("");
+  const [edit, setEdit] = useState<EditState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const loadCatalog = useCallback(async () => {
+    try {
+      setLocations(await fetchLocationCatalog());
+    } catch (loadError) {
+      setError(
+        loadError instanceof Error ? loadError.message : "No se pudieron cargar las ubicaciones.",
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCatalog();
+  }, [loadCatalog]);
+
+  const run = async (task: () => Promise<string>, fallback: string) => {
+    setError(null);
+    setNotice(null);
+    setIsProcessing(true);
+    try {
+      setNotice(await task());
+      setEdit(null);
+      await loadCatalog();
+    } catch (taskError) {
+      setError(taskError instanceof Error ? taskError.message : fallback);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleCreate = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    run(async () => {
+      const created = await createLocation(newCode);
+      setNewCode("");
+      return `Se creó la ubicación ${created.codigo}.`;
+    }, "No se pudo crear la ubicación.");
+  };
+
+  const handleRename = (location: LocationCatalogEntry, value: string) =>
+    run(async () => {
+      await renameLocation(location.id, value);
+      return `${location.codigo} ahora se llama ${value.trim()}.`;
+    }, "No se pudo renombrar la ubicación.");
+
+  const handleToggle = (location: LocationCatalogEntry) =>
+    run(async () => {
+      await setLocationActive(location.id, !location.activo);
+      return location.activo
+        ? `${location.codigo} quedó inactiva.`
+        : `${location.codigo} vuelve a estar activa.`;
+    }, "No se pudo cambiar la ubicación.");
+
+  const handleMerge = (location: LocationCatalogEntry, targetId: string) => {
+    const target = locations.find((item) => item.id === targetId);
+    if (!target) return;
+    run(async () => {
+      await mergeLocations(location.id, targetId);
+      return `${location.codigo} se unificó con ${target.codigo}.`;
+    }, "No se pudieron unificar las ubicaciones.");
+  };
+
+  const activeCount = locations.filter((location) => location.activo).length;
+
+  return (
+    <section className="mx-auto max-w-4xl p-6">
+      <div className="rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-sm">
+        <h2 className="text-2xl font-semibold text-[var(--primary-dark)]">Ubicaciones</h2>
+        <p className="mt-1 text-sm text-[var(--primary)]">
+          Solo las ubicaciones activas se pueden elegir al cargar o mover bultos. Unifica las
+          repetidas para pasar sus bultos a la correcta.
+        </p>
+        <form onSubmit={handleCreate} className="mt-5 flex flex-wrap items-end gap-3">
+          <div className="min-w-[12rem] flex-1">
+            <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+              Nueva ubicación
+            </label>
+            <input
+              value={newCode}
+              onChange={(event) => setNewCode(event.target.value)}
+              disabled={isProcessing}
+              placeholder="Ej. C11"
+              className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={!newCode.trim() || isProcessing}
+            className="rounded-md bg-[var(--primary)] px-6 py-2 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:bg-[var(--primary-muted)]"
+          >
+            Crear
+          </button>
+        </form>
+        {error ? (
+          <p className="mt-4 rounded-md border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+            {error}
+          </p>
+        ) : null}
+        {notice ? (
+          <p className="mt-4 rounded-md border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
+            {notice}
+          </p>
+        ) : null}
+      </div>
+
+      <div className="mt-4 rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-sm">
+        <h3 className="text-lg font-semibold text-[var(--primary-dark)]">
+          {activeCount} activas de {locations.length}
+        </h3>
+        {locations.length === 0 ? (
+          <p className="mt-4 rounded-md border border-dashed border-[var(--primary-muted)] px-4 py-6 text-center text-sm text-[var(--primary)]">
+            Todavía no hay ubicaciones cargadas.
+          </p>
+        ) : (
+          <ul className="mt-4 divide-y divide-[var(--primary-muted)]">
+            {locations.map((location) => (
+              <li key={location.id} className="py-3">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <p className="text-base font-semibold text-[var(--primary-dark)]">
+                      {location.codigo}
+                      <span
+                        className={`ml-2 rounded-full px-2 py-0.5 text-xs font-semibold ${
+                          location.activo
+                            ? "bg-emerald-100 text-emerald-700"
+                            : "bg-slate-100 text-slate-600"
+                        }`}
+                      >
+                        {location.activo ? "Activa" : "Inactiva"}
+                      </span>
+                    </p>
+                    <p className="text-sm text-[var(--primary)]">
+                      {location.stockBundles === 1
+                        ? "1 bulto en stock"
+                        : `${location.stockBundles} bultos en stock`}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setEdit({ kind: "rename", id: location.id, value: location.codigo })
+                      }
+                      disabled={isProcessing}
+                      className="rounded-md border border-[var(--primary-muted)] px-3 py-1.5 text-sm font-medium text-[var(--primary-dark)] transition hover:border-[var(--primary)] disabled:opacity-50"
+                    >
+                      Renombrar
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEdit({ kind: "merge", id: location.id, targetId: "" })}
+                      disabled={isProcessing || activeCount === 0}
+                      className="rounded-md border border-[var(--primary-muted)] px-3 py-1.5 text-sm font-medium text-[var(--primary-dark)] transition hover:border-[var(--primary)] disabled:opacity-50"
+                    >
+                      Unificar
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleToggle(location)}
+                      disabled={isProcessing}
+                      className={`rounded-md border px-3 py-1.5 text-sm font-medium transition disabled:opacity-50 ${
+                        location.activo
+                          ? "border-rose-200 text-rose-600 hover:border-rose-400 hover:bg-rose-50"
+                          : "border-emerald-200 text-emerald-700 hover:border-emerald-400 hover:bg-emerald-50"
+                      }`}
+                    >
+                      {location.activo ? "Desactivar" : "Activar"}
+                    </button>
+                  </div>
+                </div>
+
+                {edit?.id === location.id && edit.kind === "rename" ? (
+                  <form
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      handleRename(location, edit.value);
+                    }}
+                    className="mt-3 flex flex-wrap items-center gap-2 rounded-md bg-[var(--primary-soft)] p-3"
+                  >
+                    <input
+                      value={edit.value}
+                      onChange={(event) => setEdit({ ...edit, value: event.target.value })}
+                      disabled={isProcessing}
+                      autoFocus
+                      className="min-w-[10rem] flex-1 rounded-md border border-[var(--primary-muted)] bg-white px-3 py-1.5 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setEdit(null)}
+                      className="rounded-md border border-[var(--primary-muted)] bg-white px-3 py-1.5 text-sm font-medium text-[var(--primary-dark)]"
+                    >
+                      Cancelar
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={
+                        !edit.value.trim() || edit.value.trim() === location.codigo || isProcessing
+                      }
+                      className="rounded-md bg-[var(--primary)] px-3 py-1.5 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:bg-[var(--primary-muted)]"
+                    >
+                      Guardar
+                    </button>
+                  </form>
+                ) : null}
+
+                {edit?.id === location.id && edit.kind === "merge" ? (
+                  <div className="mt-3 rounded-md bg-[var(--primary-soft)] p-3">
+                    <p className="text-sm text-[var(--primary-dark)]">
+                      Los bultos, movimientos, conteos y plantillas de {location.codigo} pasan a
+                      la ubicación elegida y {location.codigo} se elimina del catálogo.
+                    </p>
+                    <div className="mt-2 flex flex-wrap items-center gap-2">
+                      <select
+                        value={edit.targetId}
+                        onChange={(event) => setEdit({ ...edit, targetId: event.target.value })}
+                        disabled={isProcessing}
+                        className="min-w-[10rem] flex-1 rounded-md border border-[var(--primary-muted)] bg-white px-3 py-1.5 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+                      >
+                        <option value="">Unificar con...</option>
+                        {locations
+                          .filter((item) => item.activo && item.id !== location.id)
+                          .map((item) => (
+                            <option key={item.id} value={item.id}>
+                              {item.codigo}
+                            </option>
+                          ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => setEdit(null)}
+                        className="rounded-md border border-[var(--primary-muted)] bg-white px-3 py-1.5 text-sm font-medium text-[var(--primary-dark)]"
+                      >
+                        Cancelar
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleMerge(location, edit.targetId)}
+                        disabled={!edit.targetId || isProcessing}
+                        className="rounded-md bg-rose-600 px-3 py-1.5 text-sm font-semibold text-white transition hover:bg-rose-700 disabled:cursor-not-allowed disabled:bg-rose-300"
+                      >
+                        Unificar
+                      </button>
+                    </div>
+                  </div>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+}
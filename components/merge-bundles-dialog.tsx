@@ -0,0 +1,133 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Bundle } from "@/types/cut-order";
+
+type Props = {
+  bundles: Bundle[];
+  onCancel: () => void;
+  onConfirm: (payload: { bundleIds: string[] }) => void;
+  isConfirming?: boolean;
+};
+
+export function MergeBundlesDialog({
+  bundles,
+  onCancel,
+  onConfirm,
+  isConfirming = false,
+}: Props) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const selectedBundles = useMemo(
+    () => bundles.filter((bundle) => selectedIds.includes(bundle.id)),
+    [bundles, selectedIds],
+  );
+
+  const validationError = useMemo(() => {
+    if (selectedBundles.length < 2) return null;
+    const [first] = selectedBundles;
+    if (selectedBundles.some((bundle) => bundle.currentLocation !== first.currentLocation)) {
+      return "Los bultos deben estar en la misma ubicación.";
+    }
+    if (selectedBundles.some((bundle) => bundle.status !== first.status)) {
+      return "Los bultos deben tener el mismo estado.";
+    }
+    return null;
+  }, [selectedBundles]);
+
+  const totalSheets = selectedBundles.reduce((acc, bundle) => acc + bundle.sheets, 0);
+
+  const toggleBundle = (bundleId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(bundleId)
+        ? prev.filter((id) => id !== bundleId)
+        : [...prev, bundleId],
+    );
+  };
+
+  const handleConfirm = () => {
+    if (selectedIds.length < 2 || validationError) {
+      return;
+    }
+    onConfirm({ bundleIds: selectedIds });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4"
+      onClick={onCancel}
+    >
+      <div
+        className="max-h-[90vh] w-full max-w-md overflow-hidden rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h3 className="text-2xl font-semibold text-[var(--primary-dark)]">
+          Unir Bultos
+        </h3>
+        <p className="mt-2 text-sm text-[var(--primary)]">
+          Selecciona los bultos a unir. Deben estar en la misma ubicación y con el mismo
+          estado; el de menor número conserva todas las láminas.
+        </p>
+
+        <div className="mt-5 max-h-[50vh] space-y-2 overflow-y-auto pr-1 text-sm text-[var(--primary)]">
+          {bundles.length === 0 ? (
+            <p className="rounded-md border border-dashed border-[var(--primary-muted)] px-4 py-2 text-xs">
+              No hay bultos disponibles o asignados para unir.
+            </p>
+          ) : (
+            bundles.map((bundle) => (
+              <label
+                key={bundle.id}
+                className="flex items-center gap-3 rounded-md border border-[var(--primary-muted)] bg-white px-4 py-2"
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(bundle.id)}
+                  onChange={() => toggleBundle(bundle.id)}
+                  className="h-4 w-4 rounded border-[var(--primary)] text-[var(--primary-dark)] focus:ring-[var(--primary)]"
+                />
+                <span className="flex-1 text-[var(--primary-dark)]">{bundle.name}</span>
+                <span className="text-xs">
+                  {bundle.currentLocation} • {bundle.status} •{" "}
+                  {bundle.sheets.toLocaleString("es-ES")} lám.
+                </span>
+              </label>
+            ))
+          )}
+        </div>
+
+        {validationError ? (
+          <p className="mt-4 rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+            {validationError}
+          </p>
+        ) : selectedBundles.length >= 2 ? (
+          <p className="mt-4 text-sm text-[var(--primary)]">
+            El bulto resultante tendrá{" "}
+            <span className="font-semibold text-[var(--primary-dark)]">
+              {totalSheets.toLocaleString("es-ES")}
+            </span>{" "}
+            láminas.
+          </p>
+        ) : null}
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm font-medium text-[var(--primary)] transition hover:border-[var(--primary)] hover:text-[var(--primary-dark)]"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:bg-[var(--primary-muted)]"
+            disabled={selectedIds.length < 2 || Boolean(validationError) || isConfirming}
+          >
+            Unir
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
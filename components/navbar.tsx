@@ -2,7 +2,7 @@ import Link from "next/link";
 import Image from "next/image";
 
 interface NavbarProps {
-  activePage: "orders" | "dashboard";
+  activePage: "orders" | "dashboard" | "import" | "move" | "count" | "locations";
 }
 
 export function Navbar({ activePage }: NavbarProps) {
@@ -34,6 +34,46 @@ export function Navbar({ activePage }: NavbarProps) {
             >
               Dashboard
             </Link>
+            <Link
+              href="/importar"
+              className={`text-sm font-medium underline-offset-2 ${
+                activePage === "import"
+                  ? "font-semibold text-white underline"
+                  : "text-white/80 hover:text-white hover:underline"
+              }`}
+            >
+              Importar
+            </Link>
+            <Link
+              href="/mover"
+              className={`text-sm font-medium underline-offset-2 ${
+                activePage === "move"
+                  ? "font-semibold text-white underline"
+                  : "text-white/80 hover:text-white hover:underline"
+              }`}
+            >
+              Mover por escaneo
+            </Link>
+            <Link
+              href="/conteo"
+              className={`text-sm font-medium underline-offset-2 ${
+                activePage === "count"
+                  ? "font-semibold text-white underline"
+                  : "text-white/80 hover:text-white hover:underline"
+              }`}
+            >
+              Conteo
+            </Link>
+            <Link
+              href="/ubicaciones"
+              className={`text-sm font-medium underline-offset-2 ${
+                activePage === "locations"
+                  ? "font-semibold text-white underline"
+                  : "text-white/80 hover:text-white hover:underline"
+              }`}
+            >
+              Ubicaciones
+            </Link>
           </nav>
         </div>
         <Image
@@ -0,0 +1,205 @@
+"use client";
+
+import { ChangeEvent, useState } from "react";
+import Link from "next/link";
+import { readSpreadsheet } from "@/lib/spreadsheet";
+import {
+  importCutOrders,
+  previewOrderImport,
+  type ImportPreview,
+  type ImportResult,
+} from "@/lib/services/order-import";
+
+export function OrderImport() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setFileName(file.name);
+    setPreview(null);
+    setResults(null);
+    setError(null);
+    try {
+      setIsReading(true);
+      const sheet = await readSpreadsheet(file);
+      setPreview(await previewOrderImport(sheet));
+    } catch (readError) {
+      setError(
+        readError instanceof Error ? readError.message : "No se pudo leer el archivo.",
+      );
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setError(null);
+    try {
+      setIsImporting(true);
+      setResults(await importCutOrders(preview));
+      setPreview(null);
+    } catch (importError) {
+      setError(
+        importError instanceof Error ? importError.message : "No se pudo importar el archivo.",
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const errorCount = preview?.rows.filter((row) => row.errors.length > 0).length ?? 0;
+
+  return (
+    <section className="mx-auto max-w-5xl p-6">
+      <div className="rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-sm">
+        <h2 className="text-2xl font-semibold text-[var(--primary-dark)]">
+          Importar órdenes de corte
+        </h2>
+        <p className="mt-2 text-sm text-[var(--primary)]">
+          Sube un archivo CSV o XLSX con una fila por bulto y las columnas Orden, Fecha,
+          Material (código), Bulto, Láminas, Ubicación y Bobina (opcional). Antes de crear
+          las órdenes se muestra una vista previa con los errores de cada fila.
+        </p>
+
+        <label className="mt-5 inline-flex cursor-pointer items-center gap-3 rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)]">
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          {isReading ? "Leyendo..." : "Seleccionar archivo"}
+        </label>
+        {fileName ? (
+          <span className="ml-3 text-sm text-[var(--primary)]">{fileName}</span>
+        ) : null}
+
+        {error ? (
+          <p className="mt-4 rounded-md border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+            {error}
+          </p>
+        ) : null}
+      </div>
+
+      {preview ? (
+        <div className="mt-4 rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-sm">
+          {preview.missingColumns.length > 0 ? (
+            <p className="rounded-md border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+              Faltan columnas en el encabezado: {preview.missingColumns.join(", ")}.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-[var(--primary-dark)]">
+                  {preview.orders.length} órdenes • {preview.rows.length} bultos
+                  {errorCount > 0 ? (
+                    <span className="ml-2 font-semibold text-rose-600">
+                      {errorCount} {errorCount === 1 ? "fila con errores" : "filas con errores"}
+                    </span>
+                  ) : null}
+                </p>
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={preview.hasErrors || isImporting}
+                  className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:bg-[var(--primary-muted)]"
+                >
+                  {isImporting
+                    ? "Importando..."
+                    : `Importar ${preview.orders.length} ${
+                        preview.orders.length === 1 ? "orden" : "órdenes"
+                      }`}
+                </button>
+              </div>
+
+              <div className="mt-4 max-h-[60vh] overflow-auto rounded-md border border-[var(--primary-muted)]">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-[var(--primary-soft)]">
+                    <tr className="text-left text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+                      <th className="px-3 py-2">Fila</th>
+                      <th className="px-3 py-2">Orden</th>
+                      <th className="px-3 py-2">Fecha</th>
+                      <th className="px-3 py-2">Material</th>
+                      <th className="px-3 py-2">Bulto</th>
+                      <th className="px-3 py-2">Láminas</th>
+                      <th className="px-3 py-2">Ubicación</th>
+                      <th className="px-3 py-2">Bobina</th>
+                      <th className="px-3 py-2">Errores</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[var(--primary-muted)]">
+                    {preview.rows.length === 0 ? (
+                      <tr>
+                        <td colSpan={9} className="px-3 py-6 text-center text-[var(--primary)]">
+                          El archivo no tiene filas para importar.
+                        </td>
+                      </tr>
+                    ) : (
+                      preview.rows.map((row) => (
+                        <tr
+                          key={row.rowNumber}
+                          className={row.errors.length > 0 ? "bg-rose-50" : undefined}
+                        >
+                          <td className="px-3 py-2 text-[var(--primary)]">{row.rowNumber}</td>
+                          <td className="px-3 py-2 font-medium text-[var(--primary-dark)]">
+                            {row.orderNumber || "-"}
+                          </td>
+                          <td className="px-3 py-2 text-[var(--primary-dark)]">{row.date ?? "-"}</td>
+                          <td className="px-3 py-2 text-[var(--primary-dark)]">
+                            {row.materialCode || "-"}
+                          </td>
+                          <td className="px-3 py-2 text-[var(--primary-dark)]">
+                            {row.bundleNumber ?? "-"}
+                          </td>
+                          <td className="px-3 py-2 text-[var(--primary-dark)]">
+                            {row.sheets?.toLocaleString("es-ES") ?? "-"}
+                          </td>
+                          <td className="px-3 py-2 text-[var(--primary-dark)]">{row.location || "-"}</td>
+                          <td className="px-3 py-2 text-[var(--primary-dark)]">{row.bobina || "-"}</td>
+                          <td className="px-3 py-2 text-xs text-rose-700">
+                            {row.errors.join(" ")}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      ) : null}
+
+      {results ? (
+        <div className="mt-4 rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-sm">
+          <h3 className="text-lg font-semibold text-[var(--primary-dark)]">Resultado</h3>
+          <ul className="mt-3 space-y-1 text-sm">
+            {results.map((result) => (
+              <li
+                key={result.code}
+                className={result.error ? "text-rose-700" : "text-emerald-700"}
+              >
+                {result.code}: {result.error ?? "creada correctamente."}
+              </li>
+            ))}
+          </ul>
+          <Link
+            href="/"
+            className="mt-4 inline-block text-sm font-semibold text-[var(--primary)] underline-offset-2 hover:text-[var(--primary-dark)] hover:underline"
+          >
+            Ver órdenes
+          </Link>
+        </div>
+      ) : null}
+    </section>
+  );
+}
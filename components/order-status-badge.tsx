@@ -0,0 +1,22 @@
+import { CutOrderStatus } from "@/types/cut-order";
+
+const STATUS_STYLES: Record<CutOrderStatus, string> = {
+  Borrador: "bg-slate-100 text-slate-600",
+  Operativa: "bg-emerald-100 text-emerald-700",
+  Pausada: "bg-amber-100 text-amber-700",
+  Completada: "bg-[var(--primary-soft)] text-[var(--primary-dark)]",
+  Cancelada: "bg-rose-100 text-rose-700",
+};
+
+type Props = {
+  status: CutOrderStatus;
+  className?: string;
+};
+
+export function OrderStatusBadge({ status, className = "" }: Props) {
+  return (
+    <span className={`rounded-md font-medium ${STATUS_STYLES[status]} ${className}`}>
+      {status}
+    </span>
+  );
+}
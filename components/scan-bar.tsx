@@ -0,0 +1,205 @@
+"use client";
+
+import { FormEvent, KeyboardEvent, useEffect, useRef, useState } from "react";
+import {
+  applyScannedAction,
+  resolveScan,
+  type ScannedActionResult,
+} from "@/lib/services/bundle-scan";
+import { undoBundleAction } from "@/lib/services/cut-orders";
+import { CutOrder } from "@/types/cut-order";
+
+type Props = {
+  orders: CutOrder[];
+  /** Se llama al escanear un bulto para abrir su orden con el bulto elegido. */
+  onBundleScanned: (payload: { orderId: string; bundleId: string }) => void;
+  /** Se llama después de aplicar o deshacer una acción para recargar. */
+  onChanged: () => void;
+  onClose: () => void;
+};
+
+type ScanFeedback = {
+  type: "success" | "error";
+  text: string;
+  undo?: ScannedActionResult;
+} | null;
+
+/**
+ * Entrada para lectores que escriben como teclado: primero se escanea la
+ * etiqueta del bulto y después una ubicación (mover) o una orden de trabajo
+ * (asignar, o utilizar si ya estaba asignado a esa orden). Una orden de
+ * trabajo que nunca se usó hay que escanearla dos veces, por si era una
+ * ubicación mal escrita. Esc descarta el bulto pendiente y Ctrl+Z deshace la
+ * última acción.
+ */
+export function ScanBar({ orders, onBundleScanned, onChanged, onClose }: Props) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [value, setValue] = useState("");
+  const [pending, setPending] = useState<{ orderId: string; bundleId: string } | null>(null);
+  const [feedback, setFeedback] = useState<ScanFeedback>(null);
+  const [unconfirmedWorkOrder, setUnconfirmedWorkOrder] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const pendingOrder = orders.find((order) => order.id === pending?.orderId) ?? null;
+  const pendingBundle =
+    pendingOrder?.bundles.find((bundle) => bundle.id === pending?.bundleId) ?? null;
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Al terminar de procesar el foco vuelve a la entrada para el próximo escaneo.
+  useEffect(() => {
+    if (!isProcessing) inputRef.current?.focus();
+  }, [isProcessing]);
+
+  const handleBlur = () => {
+    window.setTimeout(() => {
+      const active = document.activeElement;
+      if (!active || active === document.body) inputRef.current?.focus();
+    }, 0);
+  };
+
+  const handleUndo = async () => {
+    if (!feedback?.undo) return;
+    setIsProcessing(true);
+    try {
+      await undoBundleAction(feedback.undo);
+      setFeedback({ type: "success", text: "Acción deshecha." });
+      onChanged();
+    } catch (undoError) {
+      setFeedback({
+        type: "error",
+        text: undoError instanceof Error ? undoError.message : "No se pudo deshacer la acción.",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleScan = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const code = value.trim();
+    setValue("");
+    if (!code || isProcessing) return;
+
+    setIsProcessing(true);
+    try {
+      const target = await resolveScan(code);
+      const isConfirmation = target.kind === "workOrder" && unconfirmedWorkOrder === target.code;
+      setUnconfirmedWorkOrder(null);
+
+      if (target.kind === "bundle") {
+        if (target.orderStatus === "cancelada") {
+          throw new Error("El bulto pertenece a una orden cancelada.");
+        }
+        setPending({ orderId: target.orderId, bundleId: target.bundleId });
+        onBundleScanned({ orderId: target.orderId, bundleId: target.bundleId });
+        setFeedback({
+          type: "success",
+          text: "Bulto leído. Escanea una ubicación o una orden de trabajo.",
+        });
+        return;
+      }
+
+      if (!pending) {
+        throw new Error("Escanea primero la etiqueta de un bulto.");
+      }
+
+      if (target.kind === "workOrder" && !target.known && !isConfirmation) {
+        setUnconfirmedWorkOrder(target.code);
+        setFeedback({
+          type: "error",
+          text: `"${target.code}" no es una ubicación y no tiene bultos asignados. Escanéala otra vez para asignar a esa orden de trabajo.`,
+        });
+        return;
+      }
+
+      const result = await applyScannedAction(pending.bundleId, target);
+      setPending(null);
+      setFeedback({ type: "success", text: result.message, undo: result });
+      onChanged();
+    } catch (scanError) {
+      setFeedback({
+        type: "error",
+        text: scanError instanceof Error ? scanError.message : "No se pudo procesar el código.",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Escape") {
+      event.preventDefault();
+      if (pending) {
+        setPending(null);
+        setUnconfirmedWorkOrder(null);
+        setFeedback(null);
+      } else {
+        onClose();
+      }
+    } else if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "z") {
+      event.preventDefault();
+      handleUndo();
+    }
+  };
+
+  return (
+    <div className="border-b border-[var(--primary-muted)] bg-white px-6 py-3 shadow-sm">
+      <form onSubmit={handleScan} className="flex flex-wrap items-center gap-3">
+        <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+          Escanear
+        </label>
+        <input
+          ref={inputRef}
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={handleBlur}
+          disabled={isProcessing}
+          placeholder={
+            pendingBundle
+              ? `${pendingBundle.name}: ubicación u orden de trabajo`
+              : "Etiqueta del bulto"
+          }
+          autoComplete="off"
+          className="min-w-[16rem] flex-1 rounded-md border border-[var(--primary)] px-3 py-2 text-sm text-[var(--primary-dark)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+        />
+        {pendingBundle && pendingOrder ? (
+          <span className="rounded-md bg-[var(--primary-soft)] px-3 py-1 text-sm font-medium text-[var(--primary-dark)]">
+            {pendingOrder.code} • {pendingBundle.name} • {pendingBundle.status}
+          </span>
+        ) : null}
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-sm font-semibold text-[var(--primary)] underline-offset-2 hover:text-[var(--primary-dark)] hover:underline"
+        >
+          Salir
+        </button>
+      </form>
+      <div className="mt-2 flex flex-wrap items-center gap-3 text-xs">
+        {feedback ? (
+          <span className={feedback.type === "success" ? "text-emerald-700" : "text-rose-700"}>
+            {feedback.text}
+          </span>
+        ) : (
+          <span className="text-[var(--primary)]">
+            Esc descarta el bulto leído • Ctrl+Z deshace la última acción
+          </span>
+        )}
+        {feedback?.undo ? (
+          <button
+            type="button"
+            onClick={handleUndo}
+            disabled={isProcessing}
+            className="font-semibold text-[var(--primary-dark)] underline-offset-2 hover:underline disabled:opacity-50"
+          >
+            Deshacer
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import { FormEvent, useEffect, useRef, useState } from "react";
+import {
+  closedBundleReason,
+  fetchScannedBundle,
+  moveScannedBundles,
+  resolveScan,
+  type ScanMoveResult,
+  type ScannedBundle,
+} from "@/lib/services/bundle-scan";
+import { undoBundleAction } from "@/lib/services/cut-orders";
+import { orderAcceptsBundleChanges, orderStatusLabels } from "@/lib/services/order-lifecycle";
+
+type MoveResultRow = ScanMoveResult & { undone?: boolean };
+
+const bundleWarnings = (bundle: ScannedBundle, destination: string | null) => {
+  const warnings: string[] = [];
+  const closedReason = closedBundleReason(bundle);
+  if (closedReason) {
+    warnings.push(`El bulto ${closedReason}; no se moverá.`);
+  }
+  if (destination && bundle.locationCode === destination) {
+    warnings.push(`Ya está en ${destination}; no se moverá.`);
+  }
+  if (!orderAcceptsBundleChanges(bundle.orderStatus)) {
+    warnings.push(
+      `La orden está en estado ${orderStatusLabels[bundle.orderStatus]} y no admite movimientos.`,
+    );
+  }
+  return warnings;
+};
+
+/**
+ * Flujo de depósito: se escanea la ubicación de destino y después todas las
+ * etiquetas de bultos que se llevan ahí, de cualquier orden. Escanear otra
+ * ubicación cambia el destino sin perder la lista.
+ */
+export function ScanMove() {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [value, setValue] = useState("");
+  const [destination, setDestination] = useState<string | null>(null);
+  const [scanned, setScanned] = useState<ScannedBundle[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [results, setResults] = useState<MoveResultRow[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  useEffect(() => {
+    if (!isProcessing) inputRef.current?.focus();
+  }, [isProcessing]);
+
+  const movableCount = scanned.filter(
+    (bundle) => bundle.locationCode !== destination && !closedBundleReason(bundle),
+  ).length;
+
+  const handleScan = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const code = value.trim();
+    setValue("");
+    if (!code || isProcessing) return;
+
+    setError(null);
+    setIsProcessing(true);
+    try {
+      const target = await resolveScan(code);
+
+      if (target.kind === "location") {
+        setDestination(target.code);
+        setResults([]);
+        return;
+      }
+      if (target.kind === "workOrder") {
+        throw new Error(`"${code}" no es una ubicación ni una etiqueta de bulto.`);
+      }
+      if (!destination) {
+        throw new Error("Escanea primero la ubicación de destino.");
+      }
+      if (scanned.some((bundle) => bundle.id === target.bundleId)) {
+        throw new Error("Ese bulto ya está en la lista.");
+      }
+
+      const bundle = await fetchScannedBundle(target.bundleId);
+      setScanned((prev) => [bundle, ...prev]);
+    } catch (scanError) {
+      setError(scanError instanceof Error ? scanError.message : "No se pudo leer el código.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!destination || movableCount === 0) return;
+    setError(null);
+    setIsProcessing(true);
+    try {
+      const moveResults = await moveScannedBundles({
+        destinationCode: destination,
+        bundles: scanned,
+      });
+      setResults(moveResults);
+      // Quedan en la lista solo los bultos de las órdenes que fallaron.
+      const failedOrders = new Set(
+        moveResults.filter((result) => result.error).map((result) => result.orderCode),
+      );
+      setScanned((prev) => prev.filter((bundle) => failedOrders.has(bundle.orderCode)));
+    } catch (commitError) {
+      setError(
+        commitError instanceof Error ? commitError.message : "No se pudieron mover los bultos.",
+      );
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleUndo = async (result: MoveResultRow) => {
+    if (!result.batchId) return;
+    setIsProcessing(true);
+    try {
+      await undoBundleAction({ batchId: result.batchId });
+      setResults((prev) =>
+        prev.map((item) =>
+          item.batchId === result.batchId ? { ...item, undone: true } : item,
+        ),
+      );
+    } catch (undoError) {
+      setError(undoError instanceof Error ? undoError.message : "No se pudo deshacer la acción.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <section className="mx-auto max-w-3xl p-6">
+      <div className="rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-sm">
+        <h2 className="text-2xl font-semibold text-[var(--primary-dark)]">Mover por escaneo</h2>
+        <p className="mt-1 text-sm text-[var(--primary)]">
+          Escanea la ubicación de destino y después las etiquetas de los bultos. Se mueven todos
+          juntos, con una acción por orden.
+        </p>
+
+        <form onSubmit={handleScan} className="mt-5">
+          <input
+            ref={inputRef}
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+            disabled={isProcessing}
+            autoComplete="off"
+            placeholder={destination ? "Escanea un bulto" : "Escanea la ubicación de destino"}
+            className="w-full rounded-md border-2 border-[var(--primary)] px-4 py-4 text-lg text-[var(--primary-dark)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+          />
+        </form>
+
+        <div className="mt-4 flex items-center justify-between rounded-md bg-[var(--primary-soft)] px-4 py-3">
+          <span className="text-sm font-semibold uppercase tracking-wide text-[var(--primary)]">
+            Destino
+          </span>
+          <span className="text-2xl font-bold text-[var(--primary-dark)]">
+            {destination ?? "-"}
+          </span>
+        </div>
+
+        {error ? (
+          <p className="mt-4 rounded-md border border-rose-200 bg-rose-50 px-4 py-3 text-base text-rose-700">
+            {error}
+          </p>
+        ) : null}
+
+        {results.length > 0 ? (
+          <ul className="mt-4 space-y-2">
+            {results.map((result) => (
+              <li
+                key={result.orderCode}
+                className={`flex items-center justify-between rounded-md border px-4 py-3 text-base ${
+                  result.error
+                    ? "border-rose-200 bg-rose-50 text-rose-700"
+                    : "border-emerald-200 bg-emerald-50 text-emerald-700"
+                }`}
+              >
+                <span>
+                  {result.orderCode}:{" "}
+                  {result.error
+                    ?? (result.undone
+                      ? "movimiento deshecho."
+                      : `${result.bundleCount} movidos a ${destination}.`)}
+                </span>
+                {result.batchId && !result.undone ? (
+                  <button
+                    type="button"
+                    onClick={() => handleUndo(result)}
+                    disabled={isProcessing}
+                    className="rounded-md border border-emerald-300 bg-white px-4 py-2 text-sm font-semibold text-emerald-700 disabled:opacity-50"
+                  >
+                    Deshacer
+                  </button>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        ) : null}
+      </div>
+
+      <div className="mt-4 rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-sm">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-lg font-semibold text-[var(--primary-dark)]">
+            {scanned.length} {scanned.length === 1 ? "bulto escaneado" : "bultos escaneados"}
+          </h3>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => setScanned([])}
+              disabled={scanned.length === 0 || isProcessing}
+              className="rounded-md border border-[var(--primary-muted)] px-4 py-3 text-base font-semibold text-[var(--primary-dark)] disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Vaciar
+            </button>
+            <button
+              type="button"
+              onClick={handleCommit}
+              disabled={!destination || movableCount === 0 || isProcessing}
+              className="rounded-md bg-[var(--primary)] px-6 py-3 text-base font-semibold text-white transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:bg-[var(--primary-muted)]"
+            >
+              {isProcessing ? "Procesando..." : `Mover ${movableCount}`}
+            </button>
+          </div>
+        </div>
+
+        {scanned.length === 0 ? (
+          <p className="mt-4 rounded-md border border-dashed border-[var(--primary-muted)] px-4 py-6 text-center text-sm text-[var(--primary)]">
+            Todavía no se escaneó ningún bulto.
+          </p>
+        ) : (
+          <ul className="mt-4 divide-y divide-[var(--primary-muted)]">
+            {scanned.map((bundle) => {
+              const warnings = bundleWarnings(bundle, destination);
+              return (
+                <li
+                  key={bundle.id}
+                  className={`flex items-center justify-between gap-3 px-2 py-3 ${
+                    warnings.length > 0 ? "bg-amber-50" : ""
+                  }`}
+                >
+                  <div>
+                    <p className="text-base font-semibold text-[var(--primary-dark)]">
+                      {bundle.orderCode} • {bundle.name}
+                    </p>
+                    <p className="text-sm text-[var(--primary)]">
+                      {bundle.sheets.toLocaleString("es-ES")} láminas • en{" "}
+                      {bundle.locationCode ?? "Sin ubicación"}
+                    </p>
+                    {warnings.map((warning) => (
+                      <p key={warning} className="text-sm font-medium text-amber-700">
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setScanned((prev) => prev.filter((item) => item.id !== bundle.id))
+                    }
+                    disabled={isProcessing}
+                    className="rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm font-semibold text-[var(--primary-dark)] disabled:opacity-50"
+                  >
+                    Quitar
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  fetchScrapEntries,
+  getScrapSummary,
+  type ScrapEntry,
+  type ScrapGroupBy,
+} from "@/lib/services/dashboard";
+
+const GROUP_LABELS: Record<ScrapGroupBy, string> = {
+  material: "Material",
+  motivo: "Motivo",
+  mes: "Mes",
+};
+
+const toDateInput = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const currentMonthStart = () => {
+  const today = new Date();
+  return toDateInput(new Date(today.getFullYear(), today.getMonth(), 1));
+};
+
+export function ScrapReport() {
+  const [desde, setDesde] = useState(currentMonthStart);
+  const [hasta, setHasta] = useState(() => toDateInput(new Date()));
+  const [groupBy, setGroupBy] = useState<ScrapGroupBy>("material");
+  const [entries, setEntries] = useState<ScrapEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const data = await fetchScrapEntries({
+          desde: desde || undefined,
+          hasta: hasta || undefined,
+        });
+        setEntries(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Error al cargar los descartes");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadEntries();
+  }, [desde, hasta]);
+
+  const summary = useMemo(() => getScrapSummary(entries, groupBy), [entries, groupBy]);
+  const totalLaminas = entries.reduce((acc, entry) => acc + entry.laminas, 0);
+
+  return (
+    <div className="flex h-full flex-col overflow-hidden">
+      <div className="flex flex-wrap items-end gap-3 border-b border-[var(--primary-muted)] p-4">
+        <div>
+          <label className="text-xs font-medium text-[var(--primary)]">Desde</label>
+          <input
+            type="date"
+            value={desde}
+            onChange={(e) => setDesde(e.target.value)}
+            className="mt-1 block rounded-md border border-[var(--primary-muted)] bg-white px-3 py-1.5 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+          />
+        </div>
+        <div>
+          <label className="text-xs font-medium text-[var(--primary)]">Hasta</label>
+          <input
+            type="date"
+            value={hasta}
+            onChange={(e) => setHasta(e.target.value)}
+            className="mt-1 block rounded-md border border-[var(--primary-muted)] bg-white px-3 py-1.5 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+          />
+        </div>
+        <div>
+          <label className="text-xs font-medium text-[var(--primary)]">Agrupar por</label>
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as ScrapGroupBy)}
+            className="mt-1 block rounded-md border border-[var(--primary-muted)] bg-white px-3 py-1.5 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+          >
+            {(Object.keys(GROUP_LABELS) as ScrapGroupBy[]).map((key) => (
+              <option key={key} value={key}>
+                {GROUP_LABELS[key]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="ml-auto text-sm text-[var(--primary)]">
+          {entries.length.toLocaleString("es-ES")} descartes •{" "}
+          <span className="font-semibold text-[var(--primary-dark)]">
+            {totalLaminas.toLocaleString("es-ES")} láminas
+          </span>
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="p-8 text-center text-[var(--primary)]">Cargando descartes...</p>
+      ) : error ? (
+        <p className="p-8 text-center text-rose-600">{error}</p>
+      ) : (
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-[var(--primary-soft)]">
+              <tr className="text-left text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+                <th className="px-4 py-3">{GROUP_LABELS[groupBy]}</th>
+                <th className="px-4 py-3">Descartes</th>
+                <th className="px-4 py-3">Láminas</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--primary-muted)]">
+              {summary.length === 0 ? (
+                <tr>
+                  <td colSpan={3} className="px-4 py-8 text-center text-[var(--primary)]">
+                    No hay descartes en el período seleccionado.
+                  </td>
+                </tr>
+              ) : (
+                summary.map((row) => (
+                  <tr key={row.clave} className="hover:bg-[var(--primary-soft)] transition">
+                    <td
+                      className={`px-4 py-3 font-medium text-[var(--primary-dark)] ${
+                        groupBy === "mes" ? "capitalize" : ""
+                      }`}
+                    >
+                      {row.etiqueta}
+                    </td>
+                    <td className="px-4 py-3 text-[var(--primary-dark)]">
+                      {row.cantidadDescartes.toLocaleString("es-ES")}
+                    </td>
+                    <td className="px-4 py-3 text-[var(--primary-dark)]">
+                      {row.totalLaminas.toLocaleString("es-ES")}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,63 +1,252 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Bundle } from "@/types/cut-order";
+import { fetchLocations, type Location } from "@/lib/services/locations";
+import { LocationSelect } from "./location-select";
 
-type SplitBundleConfirmPayload = {
+type SplitPart = {
   sheets: number;
+  destinationCode: string | null;
+};
+
+type SplitBundleConfirmPayload = {
+  parts: SplitPart[];
 };
 
 type Props = {
   bundle: Bundle;
   onCancel: () => void;
   onConfirm: (payload: SplitBundleConfirmPayload) => void;
+  isConfirming?: boolean;
+};
+
+type SplitMode = "cantidades" | "iguales";
+
+type PartDraft = {
+  sheets: string;
+  destination: string;
 };
 
-export function SplitBundleDialog({ bundle, onCancel, onConfirm }: Props) {
-  const [value, setValue] = useState("");
+const createEmptyPart = (): PartDraft => ({ sheets: "", destination: "" });
+
+export function SplitBundleDialog({
+  bundle,
+  onCancel,
+  onConfirm,
+  isConfirming = false,
+}: Props) {
+  const [mode, setMode] = useState<SplitMode>("cantidades");
+  const [parts, setParts] = useState<PartDraft[]>([createEmptyPart()]);
+  const [pieces, setPieces] = useState("2");
+  const [equalDestination, setEqualDestination] = useState("");
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [isLoadingLocations, setIsLoadingLocations] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const maxSheets = bundle.sheets;
 
+  useEffect(() => {
+    const loadLocations = async () => {
+      try {
+        setIsLoadingLocations(true);
+        const data = await fetchLocations();
+        setLocations(data);
+      } catch (loadError) {
+        console.error("Error al cargar ubicaciones:", loadError);
+      } finally {
+        setIsLoadingLocations(false);
+      }
+    };
+    loadLocations();
+  }, []);
+
+  // En partes iguales el bulto original se queda con lo que no alcanza a
+  // repartirse, de modo que nunca se pierden láminas por redondeo.
+  const requestedParts = useMemo((): SplitPart[] | null => {
+    if (mode === "iguales") {
+      const totalPieces = Number(pieces);
+      if (!Number.isInteger(totalPieces) || totalPieces < 2) return null;
+      const sheetsPerPart = Math.floor(maxSheets / totalPieces);
+      if (sheetsPerPart <= 0) return null;
+      return Array.from({ length: totalPieces - 1 }, () => ({
+        sheets: sheetsPerPart,
+        destinationCode: equalDestination || null,
+      }));
+    }
+    const parsed = parts.map((part) => ({
+      sheets: Number(part.sheets),
+      destinationCode: part.destination || null,
+    }));
+    if (parsed.some((part) => !Number.isInteger(part.sheets) || part.sheets <= 0)) {
+      return null;
+    }
+    return parsed;
+  }, [mode, pieces, equalDestination, parts, maxSheets]);
+
+  const splitSheets = requestedParts?.reduce((acc, part) => acc + part.sheets, 0) ?? 0;
+  const remainingSheets = maxSheets - splitSheets;
+
+  const updatePart = (index: number, patch: Partial<PartDraft>) => {
+    setParts((prev) =>
+      prev.map((part, partIndex) => (partIndex === index ? { ...part, ...patch } : part)),
+    );
+  };
+
+  const removePart = (index: number) => {
+    setParts((prev) => prev.filter((_, partIndex) => partIndex !== index));
+  };
+
   const handleSubmit = () => {
-    const parsed = Number(value);
-    if (Number.isNaN(parsed) || parsed <= 0) {
-      setError("Ingresa una cantidad válida.");
+    if (!requestedParts || requestedParts.length === 0) {
+      setError(
+        mode === "iguales"
+          ? "Ingresa un número de partes válido."
+          : "Ingresa una cantidad válida en cada parte.",
+      );
       return;
     }
-    if (parsed >= maxSheets) {
-      setError("La cantidad debe ser menor a la del bulto original.");
+    if (remainingSheets <= 0) {
+      setError("La suma de las partes debe ser menor a la cantidad del bulto original.");
       return;
     }
     setError(null);
-    onConfirm({
-      sheets: parsed,
-    });
+    onConfirm({ parts: requestedParts });
   };
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onCancel}>
       <div
-        className="w-full max-w-md rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-2xl"
+        className="max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-md border border-[var(--primary-muted)] bg-white p-6 shadow-2xl"
         onClick={(event) => event.stopPropagation()}
       >
         <h3 className="text-2xl font-semibold text-[var(--primary-dark)]">
           Dividir {bundle.name}
         </h3>
         <p className="mt-2 text-sm text-[var(--primary)]">
-          Este bulto tiene {bundle.sheets.toLocaleString("es-ES")} láminas. Ingresa cuántas quieres retirar para crear un nuevo bulto.
+          Este bulto tiene {bundle.sheets.toLocaleString("es-ES")} láminas. Indica las partes
+          que quieres retirar; cada una se convierte en un nuevo bulto.
         </p>
-        <label className="mt-4 block text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
-          Cantidad a retirar
-        </label>
-        <input
-          type="number"
-          min={1}
-          max={maxSheets - 1}
-          value={value}
-          onChange={(event) => setValue(event.target.value)}
-          className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
-        />
+
+        <div className="mt-4 flex gap-2">
+          {(
+            [
+              { value: "cantidades", label: "Cantidades" },
+              { value: "iguales", label: "Partes iguales" },
+            ] as const
+          ).map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => {
+                setMode(option.value);
+                setError(null);
+              }}
+              className={`rounded-md border px-3 py-1.5 text-xs font-semibold uppercase tracking-wide transition ${
+                mode === option.value
+                  ? "border-[var(--primary)] bg-[var(--primary)] text-white"
+                  : "border-[var(--primary-muted)] text-[var(--primary)] hover:border-[var(--primary)]"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {mode === "cantidades" ? (
+          <div className="mt-4 space-y-3">
+            {parts.map((part, index) => (
+              <div key={index} className="flex items-end gap-2">
+                <div className="w-28">
+                  <label className="block text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+                    Parte {index + 1}
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={maxSheets - 1}
+                    value={part.sheets}
+                    onChange={(event) => updatePart(index, { sheets: event.target.value })}
+                    className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-3 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+                  />
+                </div>
+                <div className="flex-1">
+                  <label className="block text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+                    Ubicación
+                  </label>
+                  <LocationSelect
+                    value={part.destination}
+                    onChange={(value) => updatePart(index, { destination: value })}
+                    locations={locations}
+                    disabled={isLoadingLocations}
+                    placeholder={bundle.currentLocation || "Misma ubicación"}
+                    className="mt-2"
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removePart(index)}
+                  disabled={parts.length === 1}
+                  className="rounded-md border border-[var(--primary-muted)] px-3 py-2 text-sm text-[var(--primary)] transition hover:border-[var(--primary)] disabled:cursor-not-allowed disabled:opacity-40"
+                  aria-label={`Quitar parte ${index + 1}`}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setParts((prev) => [...prev, createEmptyPart()])}
+              className="text-sm font-medium text-[var(--primary)] underline-offset-2 hover:underline"
+            >
+              + Agregar parte
+            </button>
+          </div>
+        ) : (
+          <div className="mt-4 space-y-3">
+            <div>
+              <label className="block text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+                Número de partes (incluido el original)
+              </label>
+              <input
+                type="number"
+                min={2}
+                value={pieces}
+                onChange={(event) => setPieces(event.target.value)}
+                className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+                Ubicación de los nuevos bultos
+              </label>
+              <LocationSelect
+                value={equalDestination}
+                onChange={setEqualDestination}
+                locations={locations}
+                disabled={isLoadingLocations}
+                placeholder={bundle.currentLocation || "Misma ubicación"}
+                className="mt-2"
+              />
+            </div>
+          </div>
+        )}
+
+        {requestedParts && requestedParts.length > 0 ? (
+          <p
+            className={`mt-4 text-sm ${
+              remainingSheets > 0 ? "text-[var(--primary)]" : "text-rose-700"
+            }`}
+          >
+            Se crearán {requestedParts.length}{" "}
+            {requestedParts.length === 1 ? "bulto nuevo" : "bultos nuevos"} con{" "}
+            {splitSheets.toLocaleString("es-ES")} láminas; el original queda con{" "}
+            <span className="font-semibold">
+              {remainingSheets.toLocaleString("es-ES")}
+            </span>
+            .
+          </p>
+        ) : null}
         {error ? (
           <p className="mt-2 rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
             {error}
@@ -74,7 +263,8 @@ export function SplitBundleDialog({ bundle, onCancel, onConfirm }: Props) {
           <button
             type="button"
             onClick={handleSubmit}
-            className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)]"
+            disabled={isConfirming}
+            className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white transition hover:bg-[var(--primary-dark)] disabled:cursor-not-allowed disabled:bg-[var(--primary-muted)]"
           >
             Dividir
           </button>
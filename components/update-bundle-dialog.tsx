@@ -14,12 +14,13 @@ type Props = {
     action: string;
     destination: string;
     orderNumber: string;
+    sheets: string;
   }) => void;
   isConfirming?: boolean;
   disabledActions?: string[];
 };
 
-const ACTION_OPTIONS = ["Mover", "Asignar", "Utilizar"];
+const ACTION_OPTIONS = ["Mover", "Asignar", "Desasignar", "Utilizar"];
 
 export function UpdateBundleDialog({
   bundle,
@@ -33,6 +34,7 @@ export function UpdateBundleDialog({
   const [action, setAction] = useState(initialAction);
   const [destination, setDestination] = useState(bundle.currentLocation ?? "");
   const [orderNumber, setOrderNumber] = useState("");
+  const [sheets, setSheets] = useState(String(bundle.sheets));
   const [actionMenuOpen, setActionMenuOpen] = useState(false);
   const [locations, setLocations] = useState<Location[]>([]);
   const [isLoadingLocations, setIsLoadingLocations] = useState(true);
@@ -64,7 +66,7 @@ export function UpdateBundleDialog({
 
   const handleSubmit = () => {
     if (!action) return;
-    onConfirm({ action, destination, orderNumber });
+    onConfirm({ action, destination, orderNumber, sheets });
   };
 
   const handleActionSelect = (nextAction: string) => {
@@ -158,6 +160,34 @@ export function UpdateBundleDialog({
               />
             </div>
           ) : null}
+          {action === "Utilizar" ? (
+            <div>
+              <label className="text-xs font-semibold uppercase tracking-wide text-[var(--primary)]">
+                Láminas a utilizar
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={bundle.sheets}
+                value={sheets}
+                onChange={(event) => setSheets(event.target.value)}
+                className="mt-2 w-full rounded-md border border-[var(--primary-muted)] px-4 py-2 text-sm text-[var(--primary-dark)] focus:border-[var(--primary)] focus:outline-none"
+              />
+              {Number(sheets) > 0 && Number(sheets) < bundle.sheets ? (
+                <p className="mt-2 text-xs text-[var(--primary)]">
+                  Quedarán {(bundle.sheets - Number(sheets)).toLocaleString("es-ES")} láminas
+                  disponibles en el bulto.
+                </p>
+              ) : null}
+            </div>
+          ) : null}
+          {action === "Desasignar" ? (
+            <p className="rounded-md border border-[var(--primary-muted)] bg-[var(--primary-soft)] px-4 py-2 text-sm text-[var(--primary-dark)]">
+              Se liberará la orden de trabajo{" "}
+              <span className="font-semibold">{bundle.workOrder}</span> y el bulto
+              volverá a estar disponible.
+            </p>
+          ) : null}
         </div>
 
         <div className="mt-6 flex justify-end gap-3">
@@ -176,6 +206,8 @@ export function UpdateBundleDialog({
               !action
               || (action === "Mover" && !destination)
               || (action === "Asignar" && !orderNumber)
+              || (action === "Utilizar"
+                && !(Number(sheets) > 0 && Number(sheets) <= bundle.sheets))
               || isConfirming
             }
           >
@@ -0,0 +1,7 @@
+/** Id único para filas, lotes y borradores; sin `crypto.randomUUID` usa la hora y un aleatorio. */
+export const createId = () => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`;
+};
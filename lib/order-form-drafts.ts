@@ -0,0 +1,82 @@
+/**
+ * Borradores del formulario de nueva orden guardados en el navegador. No pasan
+ * por el repositorio: son del usuario que los está escribiendo y se pierden
+ * solo si se descartan, se crea la orden o se borran los datos del navegador.
+ */
+
+export type OrderFormDraftBundle = {
+  location: string;
+  sheets: string;
+  num_bobina: string;
+};
+
+export type OrderFormDraft = {
+  id: string;
+  name: string;
+  /** Fecha ISO del último guardado. */
+  updatedAt: string;
+  orderNumber: string;
+  orderDate: string;
+  materialId: string;
+  allLocation: string;
+  bundles: OrderFormDraftBundle[];
+};
+
+const STORAGE_KEY = "cortes-admin:borradores-orden";
+
+const getStorage = (): Storage | null => {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+const readDrafts = (): OrderFormDraft[] => {
+  const raw = getStorage()?.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? (parsed as OrderFormDraft[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeDrafts = (drafts: OrderFormDraft[]) => {
+  try {
+    getStorage()?.setItem(STORAGE_KEY, JSON.stringify(drafts));
+  } catch (error) {
+    // Sin espacio o sin permisos: el formulario sigue funcionando sin autoguardado.
+    console.error("No se pudo guardar el borrador:", error);
+  }
+};
+
+/** Borradores guardados, del más reciente al más antiguo. */
+export const listFormDrafts = () =>
+  readDrafts().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+export const saveFormDraft = (draft: Omit<OrderFormDraft, "updatedAt">) => {
+  const saved: OrderFormDraft = { ...draft, updatedAt: new Date().toISOString() };
+  writeDrafts([saved, ...readDrafts().filter((item) => item.id !== draft.id)]);
+  return saved;
+};
+
+export const removeFormDraft = (draftId: string) => {
+  writeDrafts(readDrafts().filter((item) => item.id !== draftId));
+};
+
+/** Cambia el código de ubicación en los borradores, p. ej. al unificar ubicaciones. */
+export const replaceFormDraftLocation = (fromCode: string, toCode: string) => {
+  const matches = (code: string) => code.trim().toLowerCase() === fromCode.toLowerCase();
+  writeDrafts(
+    readDrafts().map((draft) => ({
+      ...draft,
+      allLocation: matches(draft.allLocation) ? toCode : draft.allLocation,
+      bundles: draft.bundles.map((bundle) =>
+        matches(bundle.location) ? { ...bundle, location: toCode } : bundle,
+      ),
+    })),
+  );
+};
@@ -0,0 +1,306 @@
+/**
+ * Generador de códigos QR sin dependencias para las etiquetas de bultos.
+ * Codifica texto en modo byte con corrección de errores nivel M, versiones
+ * 1 a 10 (hasta 213 bytes), que alcanza de sobra para un id de bulto.
+ * Sigue la norma ISO/IEC 18004; devuelve la matriz de módulos (true = negro).
+ */
+
+export type QrMatrix = boolean[][];
+
+const MAX_VERSION = 10;
+// Nivel M, indexado por versión (la posición 0 no se usa).
+const ECC_CODEWORDS_PER_BLOCK = [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const ERROR_CORRECTION_BLOCKS = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+// Bits de formato del nivel M.
+const ECC_FORMAT_BITS = 0;
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+const rawDataModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignCount - 10) * alignCount - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const dataCodewords = (version: number) =>
+  Math.floor(rawDataModules(version) / 8)
+  - ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version];
+
+const alignmentPositions = (version: number, size: number) => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const result = [6];
+  for (let position = size - 7; result.length < count; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+};
+
+// Aritmética en GF(2^8) con el polinomio 0x11D.
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < degree; j += 1) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const result = new Array<number>(divisor.length).fill(0);
+  data.forEach((byte) => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, index) => {
+      result[index] ^= gfMultiply(coefficient, factor);
+    });
+  });
+  return result;
+};
+
+/** Divide los datos en bloques, agrega la corrección y los intercala. */
+const addErrorCorrection = (data: number[], version: number) => {
+  const blockCount = ERROR_CORRECTION_BLOCKS[version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  let offset = 0;
+  for (let i = 0; i < blockCount; i += 1) {
+    const length = shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < shortBlockCount) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i += 1) {
+    blocks.forEach((block, j) => {
+      // El relleno de los bloques cortos no se transmite.
+      if (i !== shortBlockLength - eccLength || j >= shortBlockCount) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+};
+
+const encodeData = (bytes: Uint8Array, version: number) => {
+  const capacityBits = dataCodewords(version) * 8;
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i -= 1) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacityBits / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+};
+
+const applyMask = (x: number, y: number, mask: number) => {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+};
+
+/** Penalización de la norma para elegir la máscara más legible. */
+const penaltyScore = (modules: QrMatrix) => {
+  const size = modules.length;
+  const lines = [
+    ...modules.map((row) => row.map((dark) => (dark ? "1" : "0")).join("")),
+    ...modules.map((_, x) => modules.map((row) => (row[x] ? "1" : "0")).join("")),
+  ];
+
+  let score = 0;
+  lines.forEach((line) => {
+    for (const run of line.match(/0{5,}|1{5,}/g) ?? []) score += run.length - 2;
+    for (const pattern of ["10111010000", "00001011101"]) {
+      for (let index = line.indexOf(pattern); index >= 0; index = line.indexOf(pattern, index + 1)) {
+        score += 40;
+      }
+    }
+  });
+
+  let dark = 0;
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      if (modules[y][x]) dark += 1;
+      if (
+        x < size - 1
+        && y < size - 1
+        && modules[y][x] === modules[y][x + 1]
+        && modules[y][x] === modules[y + 1][x]
+        && modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        score += 3;
+      }
+    }
+  }
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+};
+
+export function createQrCode(text: string): QrMatrix {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  // Modo (4 bits) + longitud (8 o 16 bits) + datos.
+  while (4 + (version < 10 ? 8 : 16) + bytes.length * 8 > dataCodewords(version) * 8) {
+    version += 1;
+    if (version > MAX_VERSION) {
+      throw new Error("El texto es demasiado largo para el código QR.");
+    }
+  }
+
+  const size = version * 4 + 17;
+  const modules: QrMatrix = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction: QrMatrix = Array.from({ length: size }, () =>
+    new Array<boolean>(size).fill(false),
+  );
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  // Patrones de sincronización, localización y alineación.
+  for (let i = 0; i < size; i += 1) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+  [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= size || y < 0 || y >= size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+  const alignment = alignmentPositions(version, size);
+  alignment.forEach((cy, i) => {
+    alignment.forEach((cx, j) => {
+      const last = alignment.length - 1;
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy += 1) {
+        for (let dx = -2; dx <= 2; dx += 1) {
+          setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  const drawFormatBits = (mask: number) => {
+    const data = (ECC_FORMAT_BITS << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i += 1) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i += 1) setFunction(8, i, getBit(bits, i));
+    setFunction(8, 7, getBit(bits, 6));
+    setFunction(8, 8, getBit(bits, 7));
+    setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i += 1) setFunction(14 - i, 8, getBit(bits, i));
+    for (let i = 0; i < 8; i += 1) setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i += 1) setFunction(8, size - 15 + i, getBit(bits, i));
+    setFunction(8, size - 8, true);
+  };
+  // Reserva el área de formato antes de ubicar los datos.
+  drawFormatBits(0);
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i += 1) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i += 1) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, getBit(bits, i));
+      setFunction(b, a, getBit(bits, i));
+    }
+  }
+
+  // Datos en zigzag, de a dos columnas desde la esquina inferior derecha.
+  const codewords = addErrorCorrection(encodeData(bytes, version), version);
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical += 1) {
+      for (let j = 0; j < 2; j += 1) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7));
+          bitIndex += 1;
+        }
+      }
+    }
+  }
+
+  const masked = (mask: number) => {
+    drawFormatBits(mask);
+    return modules.map((row, y) =>
+      row.map((dark, x) => (isFunction[y][x] ? dark : dark !== applyMask(x, y, mask))),
+    );
+  };
+
+  let best: QrMatrix = masked(0);
+  let bestScore = penaltyScore(best);
+  for (let mask = 1; mask < 8; mask += 1) {
+    const candidate = masked(mask);
+    const score = penaltyScore(candidate);
+    if (score < bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
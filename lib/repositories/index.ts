@@ -0,0 +1,33 @@
+import { createMemoryRepository } from "./memory";
+import { createSupabaseRepository } from "./supabase";
+import { DataRepository } from "./types";
+
+export type DataBackend = "supabase" | "memory";
+
+let repository: DataRepository | null = null;
+
+/**
+ * Backend seleccionado con NEXT_PUBLIC_DATA_BACKEND ("supabase" por defecto
+ * o "memory" para la demo local sin red).
+ */
+export const getDataBackend = (): DataBackend => {
+  const value = process.env.NEXT_PUBLIC_DATA_BACKEND?.trim().toLowerCase();
+  return value === "memory" ? "memory" : "supabase";
+};
+
+export function getRepository(): DataRepository {
+  if (!repository) {
+    repository =
+      getDataBackend() === "memory" ? createMemoryRepository() : createSupabaseRepository();
+  }
+  return repository;
+}
+
+/** Reemplaza el repositorio activo, por ejemplo con uno en memoria sin persistencia. */
+export function setRepository(next: DataRepository) {
+  repository = next;
+}
+
+export { createMemoryRepository, createSupabaseRepository };
+export type { MemoryDataset } from "./memory";
+export * from "./types";
@@ -0,0 +1,667 @@
+import { createId } from "@/lib/ids";
+import seedData from "./seed.json";
+import {
+  BundleRecord,
+  BundleRow,
+  CutOrderRecord,
+  DashboardBundleRecord,
+  DataRepository,
+  HistoryRow,
+  InventoryCountRow,
+  LocationRow,
+  MaterialRow,
+  OrderAuditRow,
+  OrderRow,
+  OrderStatusEnum,
+  OrderTemplateRow,
+  RepositoryResult,
+  ScrapReasonRow,
+} from "./types";
+
+export type MemoryDataset = {
+  ordenes_corte: OrderRow[];
+  auditoria_ordenes: OrderAuditRow[];
+  plantillas_orden: OrderTemplateRow[];
+  bultos: BundleRow[];
+  historial_bultos: HistoryRow[];
+  conteos_inventario: InventoryCountRow[];
+  ubicaciones: LocationRow[];
+  materiales: MaterialRow[];
+  motivos_descarte: ScrapReasonRow[];
+};
+
+type MemoryRepositoryOptions = {
+  /** Datos iniciales; por defecto se usa `seed.json`. */
+  seed?: MemoryDataset;
+  /** Clave de localStorage donde se guarda el estado. Sin clave no se persiste. */
+  storageKey?: string | null;
+};
+
+const DEFAULT_STORAGE_KEY = "cortes-admin:data";
+
+const ok = <T>(data: T): RepositoryResult<T> => ({ data, error: null });
+const fail = <T>(message: string): RepositoryResult<T> => ({
+  data: null,
+  error: { message },
+});
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+const getStorage = (): Storage | null => {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+const LEGACY_SPLIT_NUMBER_FACTOR = 1000;
+
+/**
+ * Convierte los números de bulto con la codificación anterior
+ * (base * 1000 + variante) en referencias al padre. La variante 1 era el
+ * bulto original y las demás pasan a ser sus divisiones.
+ */
+const migrateEncodedBundleNumbers = (bundles: BundleRow[]): BundleRow[] => {
+  const decode = (bundle: BundleRow) => {
+    const value = bundle.numero_bulto ?? 0;
+    return {
+      base: Math.floor(value / LEGACY_SPLIT_NUMBER_FACTOR),
+      variant: value % LEGACY_SPLIT_NUMBER_FACTOR || 1,
+    };
+  };
+  const encoded = bundles.filter(
+    (bundle) =>
+      bundle.bulto_padre_id === null &&
+      (bundle.numero_bulto ?? 0) >= LEGACY_SPLIT_NUMBER_FACTOR,
+  );
+  const originals = new Map<string, { id: string; variant: number }>();
+  encoded.forEach((bundle) => {
+    const { base, variant } = decode(bundle);
+    const key = `${bundle.orden_corte_id}:${base}`;
+    const current = originals.get(key);
+    if (!current || variant < current.variant) {
+      originals.set(key, { id: bundle.id, variant });
+    }
+  });
+
+  return bundles.map((bundle) => {
+    if (!encoded.includes(bundle)) return bundle;
+    const { base, variant } = decode(bundle);
+    const original = originals.get(`${bundle.orden_corte_id}:${base}`);
+    if (!original || original.id === bundle.id) {
+      return { ...bundle, numero_bulto: base };
+    }
+    return {
+      ...bundle,
+      numero_bulto: base,
+      bulto_padre_id: original.id,
+      numero_hijo: variant - 1,
+    };
+  });
+};
+
+/** Órdenes guardadas antes de `estado`, cuando solo existía `activo`. */
+type LegacyOrderRow = Omit<OrderRow, "estado"> & {
+  estado?: OrderStatusEnum;
+  activo?: boolean | null;
+};
+
+const migrateOrderStatus = (order: LegacyOrderRow, bundles: BundleRow[]): OrderRow => {
+  const { activo, ...rest } = order;
+  if (order.estado) return { ...rest, estado: order.estado };
+  const orderBundles = bundles.filter((bundle) => bundle.orden_corte_id === order.id);
+  const isCompleted =
+    orderBundles.length > 0 &&
+    orderBundles.every(
+      (bundle) =>
+        bundle.estado === "usado" || bundle.estado === "unido" || bundle.estado === "descartado",
+    );
+  const estado: OrderStatusEnum = order.cancelada_en
+    ? "cancelada"
+    : activo !== false
+      ? "operativa"
+      : isCompleted
+        ? "completada"
+        : "pausada";
+  return { ...rest, estado };
+};
+
+/** Completa columnas agregadas después de que se guardaron los datos. */
+const normalizeDataset = (dataset: MemoryDataset): MemoryDataset => ({
+  ...dataset,
+  ordenes_corte: (dataset.ordenes_corte as LegacyOrderRow[]).map((order) =>
+    migrateOrderStatus(
+      {
+        ...order,
+        cancelada_en: order.cancelada_en ?? null,
+        motivo_cancelacion: order.motivo_cancelacion ?? null,
+      },
+      dataset.bultos,
+    ),
+  ),
+  bultos: migrateEncodedBundleNumbers(
+    dataset.bultos.map((bundle) => ({
+      ...bundle,
+      version: bundle.version ?? 1,
+      unido_a_id: bundle.unido_a_id ?? null,
+      bulto_padre_id: bundle.bulto_padre_id ?? null,
+      numero_hijo: bundle.numero_hijo ?? null,
+    })),
+  ),
+  historial_bultos: dataset.historial_bultos.map((entry) => ({
+    ...entry,
+    cantidad_laminas: entry.cantidad_laminas ?? null,
+    lote_id: entry.lote_id ?? null,
+    revertido: entry.revertido ?? false,
+    estado_anterior: entry.estado_anterior ?? null,
+    ubicacion_anterior_id: entry.ubicacion_anterior_id ?? null,
+    laminas_anteriores: entry.laminas_anteriores ?? null,
+    motivo: entry.motivo ?? null,
+    motivo_descarte_id: entry.motivo_descarte_id ?? null,
+  })),
+  conteos_inventario: (dataset.conteos_inventario ?? []).map((count) => ({
+    ...count,
+    ajustes: count.ajustes ?? [],
+  })),
+  ubicaciones: dataset.ubicaciones.map((location) => ({
+    ...location,
+    activo: location.activo ?? true,
+  })),
+});
+
+const loadDataset = (seed: MemoryDataset, storageKey: string | null): MemoryDataset => {
+  const storage = storageKey ? getStorage() : null;
+  const stored = storageKey ? storage?.getItem(storageKey) : null;
+  if (stored) {
+    try {
+      return normalizeDataset({
+        ...clone(seed),
+        ...(JSON.parse(stored) as Partial<MemoryDataset>),
+      });
+    } catch {
+      // Datos corruptos: se descartan y se vuelve a la semilla.
+    }
+  }
+  return normalizeDataset(clone(seed));
+};
+
+const compareNullableNumbers = (a: number | null, b: number | null) => {
+  if (a === null && b === null) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a - b;
+};
+
+/**
+ * Implementación completa del repositorio sobre un conjunto de datos en
+ * memoria. Permite ejecutar la aplicación como demo local y ejercitar la
+ * lógica de los servicios sin red.
+ */
+export function createMemoryRepository(options: MemoryRepositoryOptions = {}): DataRepository {
+  const storageKey =
+    options.storageKey === undefined ? DEFAULT_STORAGE_KEY : options.storageKey;
+  const data = loadDataset(options.seed ?? (seedData as MemoryDataset), storageKey);
+
+  const persist = () => {
+    if (!storageKey) return;
+    getStorage()?.setItem(storageKey, JSON.stringify(data));
+  };
+
+  const now = () => new Date().toISOString();
+
+  const findLocation = (id: string | null): Omit<LocationRow, "activo"> | null => {
+    if (!id) return null;
+    const location = data.ubicaciones.find((item) => item.id === id);
+    return location ? { id: location.id, codigo: location.codigo } : null;
+  };
+
+  const findScrapReason = (id: string | null) => {
+    const reason = id ? data.motivos_descarte.find((item) => item.id === id) : undefined;
+    return reason ? { id: reason.id, nombre: reason.nombre } : null;
+  };
+
+  const toBundleRecord = (bundle: BundleRow): BundleRecord => ({
+    id: bundle.id,
+    numero_bulto: bundle.numero_bulto,
+    cantidad_laminas: bundle.cantidad_laminas,
+    estado: bundle.estado,
+    creado_en: bundle.creado_en,
+    num_bobina: bundle.num_bobina,
+    version: bundle.version,
+    bulto_padre_id: bundle.bulto_padre_id,
+    numero_hijo: bundle.numero_hijo,
+    ubicacion: findLocation(bundle.ubicacion_id),
+    historial: data.historial_bultos
+      .filter((entry) => entry.bulto_id === bundle.id)
+      .map((entry) => ({
+        id: entry.id,
+        accion: entry.accion,
+        numero_trabajo: entry.numero_trabajo,
+        fecha_hora: entry.fecha_hora,
+        cantidad_laminas: entry.cantidad_laminas,
+        laminas_anteriores: entry.laminas_anteriores,
+        motivo: entry.motivo,
+        revertido: entry.revertido,
+        ubicacion_destino: findLocation(entry.ubicacion_destino_id),
+        motivo_descarte: findScrapReason(entry.motivo_descarte_id),
+      })),
+  });
+
+  const toCutOrderRecord = (order: OrderRow): CutOrderRecord => {
+    const material = data.materiales.find((item) => item.id === order.material_id);
+    return {
+      id: order.id,
+      numero_orden: order.numero_orden,
+      fecha: order.fecha,
+      cantidad_bultos: order.cantidad_bultos,
+      estado: order.estado,
+      cancelada_en: order.cancelada_en,
+      motivo_cancelacion: order.motivo_cancelacion,
+      material: material
+        ? { id: material.id, nombre: material.nombre, codigo: material.codigo }
+        : null,
+      bultos: data.bultos
+        .filter((bundle) => bundle.orden_corte_id === order.id)
+        .map(toBundleRecord),
+    };
+  };
+
+  const toDashboardRecord = (bundle: BundleRow): DashboardBundleRecord => {
+    const order = data.ordenes_corte.find((item) => item.id === bundle.orden_corte_id);
+    const material = order
+      ? data.materiales.find((item) => item.id === order.material_id)
+      : undefined;
+    return {
+      id: bundle.id,
+      numero_bulto: bundle.numero_bulto,
+      bulto_padre_id: bundle.bulto_padre_id,
+      numero_hijo: bundle.numero_hijo,
+      cantidad_laminas: bundle.cantidad_laminas,
+      estado: bundle.estado,
+      num_bobina: bundle.num_bobina,
+      ubicacion: bundle.ubicacion_id ? { codigo: findLocation(bundle.ubicacion_id)?.codigo ?? null } : null,
+      orden_corte: order
+        ? {
+            numero_orden: order.numero_orden,
+            fecha: order.fecha,
+            cancelada_en: order.cancelada_en,
+            material: material ? { id: material.id, nombre: material.nombre } : null,
+          }
+        : null,
+    };
+  };
+
+  return {
+    orders: {
+      list: async () => {
+        const orders = [...data.ordenes_corte].sort((a, b) =>
+          (b.creado_en ?? "").localeCompare(a.creado_en ?? ""),
+        );
+        return ok(clone(orders.map(toCutOrderRecord)));
+      },
+      findById: async (id) => {
+        const order = data.ordenes_corte.find((item) => item.id === id);
+        return order ? ok(clone(order)) : fail("No se encontró la orden.");
+      },
+      findByNumbers: async (numbers) =>
+        ok(clone(data.ordenes_corte.filter((order) => numbers.includes(order.numero_orden)))),
+      insert: async (row) => {
+        if (data.ordenes_corte.some((order) => order.numero_orden === row.numero_orden)) {
+          return fail("Ya existe una orden con ese número.");
+        }
+        const created: OrderRow = {
+          cancelada_en: null,
+          motivo_cancelacion: null,
+          ...row,
+          id: createId(),
+          creado_en: now(),
+        };
+        data.ordenes_corte.push(created);
+        persist();
+        return ok(clone(created));
+      },
+      update: async (id, patch) => {
+        if (
+          patch.numero_orden !== undefined
+          && data.ordenes_corte.some(
+            (order) => order.id !== id && order.numero_orden === patch.numero_orden,
+          )
+        ) {
+          return fail("Ya existe una orden con ese número.");
+        }
+        const updated = data.ordenes_corte
+          .filter((order) => order.id === id)
+          .map((order) => Object.assign(order, patch));
+        persist();
+        return ok(clone(updated));
+      },
+      remove: async (id) => {
+        if (data.bultos.some((bundle) => bundle.orden_corte_id === id)) {
+          return fail("La orden tiene bultos asociados.");
+        }
+        data.ordenes_corte = data.ordenes_corte.filter((order) => order.id !== id);
+        persist();
+        return ok(null);
+      },
+    },
+    orderAudit: {
+      listByOrder: async (orderId) => {
+        const entries = data.auditoria_ordenes
+          .filter((entry) => entry.orden_corte_id === orderId)
+          .sort((a, b) => b.fecha_hora.localeCompare(a.fecha_hora));
+        return ok(clone(entries));
+      },
+      insert: async (rows) => {
+        const missingOrder = rows.find(
+          (row) => !data.ordenes_corte.some((order) => order.id === row.orden_corte_id),
+        );
+        if (missingOrder) {
+          return fail("La orden de corte indicada no existe.");
+        }
+        const created = rows.map((row): OrderAuditRow => ({ ...row, id: createId() }));
+        data.auditoria_ordenes.push(...created);
+        persist();
+        return ok(clone(created));
+      },
+      remove: async (ids) => {
+        data.auditoria_ordenes = data.auditoria_ordenes.filter(
+          (entry) => !ids.includes(entry.id),
+        );
+        persist();
+        return ok(null);
+      },
+    },
+    orderTemplates: {
+      list: async () => {
+        const templates = [...data.plantillas_orden].sort((a, b) =>
+          a.nombre.localeCompare(b.nombre),
+        );
+        return ok(clone(templates));
+      },
+      insert: async (row) => {
+        if (data.plantillas_orden.some((template) => template.nombre === row.nombre)) {
+          return fail("Ya existe una plantilla con ese nombre.");
+        }
+        const created: OrderTemplateRow = { ...row, id: createId(), creado_en: now() };
+        data.plantillas_orden.push(created);
+        persist();
+        return ok(clone(created));
+      },
+      remove: async (id) => {
+        data.plantillas_orden = data.plantillas_orden.filter((template) => template.id !== id);
+        persist();
+        return ok(null);
+      },
+    },
+    bundles: {
+      findById: async (id) => {
+        const bundle = data.bultos.find((item) => item.id === id);
+        return bundle ? ok(clone(bundle)) : fail("No se encontró el bulto.");
+      },
+      listByIds: async (ids) =>
+        ok(clone(data.bultos.filter((bundle) => ids.includes(bundle.id)))),
+      listByOrder: async (orderId) =>
+        ok(clone(data.bultos.filter((bundle) => bundle.orden_corte_id === orderId))),
+      listByLocation: async (locationId) =>
+        ok(clone(data.bultos.filter((bundle) => bundle.ubicacion_id === locationId))),
+      listForDashboard: async ({ estado, numBobina }) => {
+        const search = numBobina?.toLowerCase();
+        const bundles = data.bultos
+          .filter((bundle) => !estado || bundle.estado === estado)
+          .filter(
+            (bundle) => !search || (bundle.num_bobina ?? "").toLowerCase().includes(search),
+          )
+          .sort((a, b) => compareNullableNumbers(a.numero_bulto, b.numero_bulto));
+        return ok(clone(bundles.map(toDashboardRecord)));
+      },
+      insert: async (rows) => {
+        const missingOrder = rows.find(
+          (row) => !data.ordenes_corte.some((order) => order.id === row.orden_corte_id),
+        );
+        if (missingOrder) {
+          return fail("La orden de corte indicada no existe.");
+        }
+        // Los originales son únicos por orden y las divisiones por padre.
+        const numberKey = (row: Pick<BundleRow, "orden_corte_id" | "numero_bulto">) =>
+          `${row.orden_corte_id}:${row.numero_bulto}`;
+        const childKey = (row: Pick<BundleRow, "bulto_padre_id" | "numero_hijo">) =>
+          `${row.bulto_padre_id}:${row.numero_hijo}`;
+        const takenNumbers = new Set(
+          data.bultos.filter((bundle) => !bundle.bulto_padre_id).map(numberKey),
+        );
+        const takenChildren = new Set(
+          data.bultos.filter((bundle) => bundle.bulto_padre_id).map(childKey),
+        );
+        for (const row of rows) {
+          if (row.bulto_padre_id) {
+            const key = childKey({
+              bulto_padre_id: row.bulto_padre_id,
+              numero_hijo: row.numero_hijo ?? null,
+            });
+            if (takenChildren.has(key)) {
+              return fail(`La división ${row.numero_hijo} ya existe en el bulto.`);
+            }
+            takenChildren.add(key);
+            continue;
+          }
+          const key = numberKey(row);
+          if (row.numero_bulto !== null && takenNumbers.has(key)) {
+            return fail(`El número de bulto ${row.numero_bulto} ya existe en la orden.`);
+          }
+          takenNumbers.add(key);
+        }
+        const created = rows.map(
+          (row): BundleRow => ({
+            unido_a_id: null,
+            bulto_padre_id: null,
+            numero_hijo: null,
+            ...row,
+            id: createId(),
+            creado_en: now(),
+            version: 1,
+          }),
+        );
+        data.bultos.push(...created);
+        persist();
+        return ok(clone(created));
+      },
+      update: async (ids, patch) => {
+        const updated = data.bultos
+          .filter((bundle) => ids.includes(bundle.id))
+          .map((bundle) => Object.assign(bundle, patch, { version: bundle.version + 1 }));
+        persist();
+        return ok(clone(updated));
+      },
+      updateIfVersion: async (id, version, patch) => {
+        const bundle = data.bultos.find((item) => item.id === id && item.version === version);
+        if (!bundle) return ok(null);
+        Object.assign(bundle, patch, { version: bundle.version + 1 });
+        persist();
+        return ok(clone(bundle));
+      },
+      remove: async (ids) => {
+        if (data.historial_bultos.some((entry) => ids.includes(entry.bulto_id))) {
+          return fail("El bulto tiene historial asociado.");
+        }
+        data.bultos = data.bultos.filter((bundle) => !ids.includes(bundle.id));
+        persist();
+        return ok(null);
+      },
+    },
+    history: {
+      listByBatch: async (batchId) =>
+        ok(clone(data.historial_bultos.filter((entry) => entry.lote_id === batchId))),
+      listByBundles: async (bundleIds) => {
+        const entries = data.historial_bultos
+          .filter((entry) => bundleIds.includes(entry.bulto_id))
+          .sort((a, b) => (a.fecha_hora ?? "").localeCompare(b.fecha_hora ?? ""));
+        return ok(clone(entries));
+      },
+      listByAction: async ({ accion, desde, hasta }) => {
+        const entries = data.historial_bultos
+          .filter((entry) => entry.accion === accion && !entry.revertido)
+          .filter((entry) => !desde || (entry.fecha_hora ?? "") >= desde)
+          .filter((entry) => !hasta || (entry.fecha_hora ?? "") < hasta)
+          .sort((a, b) => (a.fecha_hora ?? "").localeCompare(b.fecha_hora ?? ""));
+        return ok(clone(entries));
+      },
+      insert: async (rows) => {
+        const missingBundle = rows.find(
+          (row) => !data.bultos.some((bundle) => bundle.id === row.bulto_id),
+        );
+        if (missingBundle) {
+          return fail("El bulto indicado no existe.");
+        }
+        const created = rows.map(
+          (row): HistoryRow => ({
+            cantidad_laminas: null,
+            lote_id: null,
+            estado_anterior: null,
+            ubicacion_anterior_id: null,
+            laminas_anteriores: null,
+            motivo: null,
+            motivo_descarte_id: null,
+            ...row,
+            id: createId(),
+            revertido: false,
+          }),
+        );
+        data.historial_bultos.push(...created);
+        persist();
+        return ok(clone(created));
+      },
+      update: async (ids, patch) => {
+        const updated = data.historial_bultos
+          .filter((entry) => ids.includes(entry.id))
+          .map((entry) => Object.assign(entry, patch));
+        persist();
+        return ok(clone(updated));
+      },
+    },
+    inventoryCounts: {
+      list: async () => {
+        const counts = [...data.conteos_inventario].sort((a, b) =>
+          b.iniciado_en.localeCompare(a.iniciado_en),
+        );
+        return ok(clone(counts));
+      },
+      findById: async (id) => {
+        const count = data.conteos_inventario.find((item) => item.id === id);
+        return count ? ok(clone(count)) : fail("No se encontró el conteo.");
+      },
+      insert: async (row) => {
+        if (!data.ubicaciones.some((location) => location.id === row.ubicacion_id)) {
+          return fail("La ubicación indicada no existe.");
+        }
+        if (
+          data.conteos_inventario.some(
+            (count) => count.ubicacion_id === row.ubicacion_id && count.estado === "abierto",
+          )
+        ) {
+          return fail("Ya hay un conteo abierto en esa ubicación.");
+        }
+        const created: InventoryCountRow = {
+          ...row,
+          id: createId(),
+          estado: "abierto",
+          lineas: [],
+          ajustes: [],
+          iniciado_en: now(),
+          cerrado_en: null,
+        };
+        data.conteos_inventario.push(created);
+        persist();
+        return ok(clone(created));
+      },
+      update: async (id, patch) => {
+        const count = data.conteos_inventario.find((item) => item.id === id);
+        if (!count) return fail("No se encontró el conteo.");
+        Object.assign(count, patch);
+        persist();
+        return ok(clone(count));
+      },
+    },
+    locations: {
+      list: async () => {
+        const locations = [...data.ubicaciones].sort((a, b) =>
+          (a.codigo ?? "").localeCompare(b.codigo ?? ""),
+        );
+        return ok(clone(locations));
+      },
+      findByCodes: async (codes) =>
+        ok(
+          clone(
+            data.ubicaciones.filter((location) =>
+              location.codigo ? codes.includes(location.codigo) : false,
+            ),
+          ),
+        ),
+      insert: async (codes) => {
+        const created = codes.map(
+          (codigo): LocationRow => ({ id: createId(), codigo, activo: true }),
+        );
+        data.ubicaciones.push(...created);
+        persist();
+        return ok(clone(created));
+      },
+      update: async (id, patch) => {
+        const location = data.ubicaciones.find((item) => item.id === id);
+        if (!location) return fail("No se encontró la ubicación.");
+        Object.assign(location, patch);
+        persist();
+        return ok(clone(location));
+      },
+      merge: async (fromId, toId) => {
+        const source = data.ubicaciones.find((location) => location.id === fromId);
+        const target = data.ubicaciones.find((location) => location.id === toId);
+        if (!source || !target) return fail("No se encontró la ubicación.");
+        const isOpenIn = (locationId: string) =>
+          data.conteos_inventario.some(
+            (count) => count.ubicacion_id === locationId && count.estado === "abierto",
+          );
+        if (isOpenIn(fromId) && isOpenIn(toId)) {
+          return fail("Ya hay un conteo abierto en esa ubicación.");
+        }
+        data.bultos
+          .filter((bundle) => bundle.ubicacion_id === fromId)
+          .forEach((bundle) => (bundle.ubicacion_id = toId));
+        data.historial_bultos.forEach((entry) => {
+          if (entry.ubicacion_destino_id === fromId) entry.ubicacion_destino_id = toId;
+          if (entry.ubicacion_anterior_id === fromId) entry.ubicacion_anterior_id = toId;
+        });
+        data.conteos_inventario
+          .filter((count) => count.ubicacion_id === fromId)
+          .forEach((count) => (count.ubicacion_id = toId));
+        const sourceCode = source.codigo?.toLowerCase();
+        data.plantillas_orden.forEach((template) =>
+          template.bultos
+            .filter(
+              (bundle) => sourceCode && bundle.ubicacion_codigo?.toLowerCase() === sourceCode,
+            )
+            .forEach((bundle) => (bundle.ubicacion_codigo = target.codigo)),
+        );
+        data.ubicaciones = data.ubicaciones.filter((location) => location.id !== fromId);
+        persist();
+        return ok(null);
+      },
+    },
+    materials: {
+      listActive: async () => {
+        const materials = data.materiales
+          .filter((material) => material.activo)
+          .sort((a, b) => a.nombre.localeCompare(b.nombre));
+        return ok(clone(materials));
+      },
+    },
+    scrapReasons: {
+      list: async () => {
+        const reasons = [...data.motivos_descarte].sort((a, b) =>
+          a.nombre.localeCompare(b.nombre),
+        );
+        return ok(clone(reasons));
+      },
+    },
+  };
+}
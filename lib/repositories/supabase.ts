@@ -0,0 +1,328 @@
+import { getSupabaseClient } from "@/lib/supabase-client";
+import {
+  BundleRow,
+  CutOrderRecord,
+  DashboardBundleRecord,
+  DataRepository,
+  HistoryRow,
+  InventoryCountRow,
+  LocationRow,
+  MaterialRow,
+  OrderAuditRow,
+  OrderRow,
+  OrderTemplateRow,
+  ScrapReasonRow,
+} from "./types";
+
+const ORDER_COLUMNS =
+  "id, numero_orden, fecha, cantidad_bultos, estado, material_id, creado_en, cancelada_en, motivo_cancelacion";
+const ORDER_AUDIT_COLUMNS =
+  "id, orden_corte_id, campo, valor_anterior, valor_nuevo, fecha_hora, lote_id";
+const ORDER_TEMPLATE_COLUMNS = "id, nombre, material_id, bultos, creado_en";
+const BUNDLE_COLUMNS =
+  "id, orden_corte_id, numero_bulto, cantidad_laminas, ubicacion_id, estado, num_bobina, creado_en, version, unido_a_id, bulto_padre_id, numero_hijo";
+const HISTORY_COLUMNS =
+  "id, bulto_id, accion, ubicacion_destino_id, numero_trabajo, fecha_hora, cantidad_laminas, lote_id, revertido, estado_anterior, ubicacion_anterior_id, laminas_anteriores, motivo, motivo_descarte_id";
+const LOCATION_COLUMNS = "id, codigo, activo";
+const INVENTORY_COUNT_COLUMNS =
+  "id, ubicacion_id, estado, lineas, ajustes, iniciado_en, cerrado_en";
+
+const CUT_ORDER_SELECT = `
+  id,
+  numero_orden,
+  fecha,
+  cantidad_bultos,
+  estado,
+  cancelada_en,
+  motivo_cancelacion,
+  material:materiales ( id, nombre, codigo ),
+  bultos:bultos (
+    id,
+    numero_bulto,
+    cantidad_laminas,
+    estado,
+    creado_en,
+    num_bobina,
+    version,
+    bulto_padre_id,
+    numero_hijo,
+    ubicacion:ubicaciones ( id, codigo ),
+    historial:historial_bultos (
+      id,
+      accion,
+      numero_trabajo,
+      fecha_hora,
+      cantidad_laminas,
+      laminas_anteriores,
+      motivo,
+      revertido,
+      ubicacion_destino:ubicaciones ( id, codigo ),
+      motivo_descarte:motivos_descarte ( id, nombre )
+    )
+  )
+`;
+
+const DASHBOARD_BUNDLE_SELECT = `
+  id,
+  numero_bulto,
+  bulto_padre_id,
+  numero_hijo,
+  cantidad_laminas,
+  estado,
+  num_bobina,
+  ubicacion:ubicaciones ( codigo ),
+  orden_corte:ordenes_corte (
+    numero_orden,
+    fecha,
+    cancelada_en,
+    material:materiales ( id, nombre )
+  )
+`;
+
+export function createSupabaseRepository(): DataRepository {
+  const db = () => getSupabaseClient();
+
+  return {
+    orders: {
+      list: async () =>
+        db()
+          .from("ordenes_corte")
+          .select(CUT_ORDER_SELECT)
+          .order("creado_en", { ascending: false })
+          .returns<CutOrderRecord[]>(),
+      findById: async (id) =>
+        db().from("ordenes_corte").select(ORDER_COLUMNS).eq("id", id).single<OrderRow>(),
+      findByNumbers: async (numbers) =>
+        db()
+          .from("ordenes_corte")
+          .select(ORDER_COLUMNS)
+          .in("numero_orden", numbers)
+          .returns<OrderRow[]>(),
+      insert: async (row) =>
+        db()
+          .from("ordenes_corte")
+          .insert(row)
+          .select(ORDER_COLUMNS)
+          .single<OrderRow>(),
+      update: async (id, patch) =>
+        db()
+          .from("ordenes_corte")
+          .update(patch)
+          .eq("id", id)
+          .select(ORDER_COLUMNS)
+          .returns<OrderRow[]>(),
+      remove: async (id) => db().from("ordenes_corte").delete().eq("id", id),
+    },
+    orderAudit: {
+      listByOrder: async (orderId) =>
+        db()
+          .from("auditoria_ordenes")
+          .select(ORDER_AUDIT_COLUMNS)
+          .eq("orden_corte_id", orderId)
+          .order("fecha_hora", { ascending: false })
+          .returns<OrderAuditRow[]>(),
+      insert: async (rows) =>
+        db()
+          .from("auditoria_ordenes")
+          .insert(rows)
+          .select(ORDER_AUDIT_COLUMNS)
+          .returns<OrderAuditRow[]>(),
+      remove: async (ids) => db().from("auditoria_ordenes").delete().in("id", ids),
+    },
+    orderTemplates: {
+      list: async () =>
+        db()
+          .from("plantillas_orden")
+          .select(ORDER_TEMPLATE_COLUMNS)
+          .order("nombre", { ascending: true })
+          .returns<OrderTemplateRow[]>(),
+      insert: async (row) =>
+        db()
+          .from("plantillas_orden")
+          .insert(row)
+          .select(ORDER_TEMPLATE_COLUMNS)
+          .single<OrderTemplateRow>(),
+      remove: async (id) => db().from("plantillas_orden").delete().eq("id", id),
+    },
+    bundles: {
+      findById: async (id) =>
+        db()
+          .from("bultos")
+          .select(BUNDLE_COLUMNS)
+          .eq("id", id)
+          .single<BundleRow>(),
+      listByIds: async (ids) =>
+        db().from("bultos").select(BUNDLE_COLUMNS).in("id", ids).returns<BundleRow[]>(),
+      listByOrder: async (orderId) =>
+        db()
+          .from("bultos")
+          .select(BUNDLE_COLUMNS)
+          .eq("orden_corte_id", orderId)
+          .returns<BundleRow[]>(),
+      listByLocation: async (locationId) =>
+        db()
+          .from("bultos")
+          .select(BUNDLE_COLUMNS)
+          .eq("ubicacion_id", locationId)
+          .returns<BundleRow[]>(),
+      listForDashboard: async ({ estado, numBobina }) => {
+        let query = db()
+          .from("bultos")
+          .select(DASHBOARD_BUNDLE_SELECT)
+          .order("numero_bulto", { ascending: true });
+
+        if (estado) {
+          query = query.eq("estado", estado);
+        }
+
+        if (numBobina) {
+          query = query.ilike("num_bobina", `%${numBobina}%`);
+        }
+
+        return query.returns<DashboardBundleRecord[]>();
+      },
+      insert: async (rows) =>
+        db().from("bultos").insert(rows).select(BUNDLE_COLUMNS).returns<BundleRow[]>(),
+      update: async (ids, patch) =>
+        db()
+          .from("bultos")
+          .update(patch)
+          .in("id", ids)
+          .select(BUNDLE_COLUMNS)
+          .returns<BundleRow[]>(),
+      updateIfVersion: async (id, version, patch) =>
+        db()
+          .from("bultos")
+          .update(patch)
+          .eq("id", id)
+          .eq("version", version)
+          .select(BUNDLE_COLUMNS)
+          .maybeSingle<BundleRow>(),
+      remove: async (ids) => db().from("bultos").delete().in("id", ids),
+    },
+    history: {
+      listByBatch: async (batchId) =>
+        db()
+          .from("historial_bultos")
+          .select(HISTORY_COLUMNS)
+          .eq("lote_id", batchId)
+          .returns<HistoryRow[]>(),
+      listByBundles: async (bundleIds) =>
+        db()
+          .from("historial_bultos")
+          .select(HISTORY_COLUMNS)
+          .in("bulto_id", bundleIds)
+          .order("fecha_hora", { ascending: true })
+          .returns<HistoryRow[]>(),
+      listByAction: async ({ accion, desde, hasta }) => {
+        let query = db()
+          .from("historial_bultos")
+          .select(HISTORY_COLUMNS)
+          .eq("accion", accion)
+          .eq("revertido", false)
+          .order("fecha_hora", { ascending: true });
+
+        if (desde) {
+          query = query.gte("fecha_hora", desde);
+        }
+
+        if (hasta) {
+          query = query.lt("fecha_hora", hasta);
+        }
+
+        return query.returns<HistoryRow[]>();
+      },
+      insert: async (rows) =>
+        db()
+          .from("historial_bultos")
+          .insert(rows)
+          .select(HISTORY_COLUMNS)
+          .returns<HistoryRow[]>(),
+      update: async (ids, patch) =>
+        db()
+          .from("historial_bultos")
+          .update(patch)
+          .in("id", ids)
+          .select(HISTORY_COLUMNS)
+          .returns<HistoryRow[]>(),
+    },
+    inventoryCounts: {
+      list: async () =>
+        db()
+          .from("conteos_inventario")
+          .select(INVENTORY_COUNT_COLUMNS)
+          .order("iniciado_en", { ascending: false })
+          .returns<InventoryCountRow[]>(),
+      findById: async (id) =>
+        db()
+          .from("conteos_inventario")
+          .select(INVENTORY_COUNT_COLUMNS)
+          .eq("id", id)
+          .single<InventoryCountRow>(),
+      insert: async (row) =>
+        db()
+          .from("conteos_inventario")
+          .insert(row)
+          .select(INVENTORY_COUNT_COLUMNS)
+          .single<InventoryCountRow>(),
+      update: async (id, patch) =>
+        db()
+          .from("conteos_inventario")
+          .update(patch)
+          .eq("id", id)
+          .select(INVENTORY_COUNT_COLUMNS)
+          .single<InventoryCountRow>(),
+    },
+    locations: {
+      list: async () =>
+        db()
+          .from("ubicaciones")
+          .select(LOCATION_COLUMNS)
+          .order("codigo", { ascending: true })
+          .returns<LocationRow[]>(),
+      findByCodes: async (codes) =>
+        db()
+          .from("ubicaciones")
+          .select(LOCATION_COLUMNS)
+          .in("codigo", codes)
+          .returns<LocationRow[]>(),
+      insert: async (codes) =>
+        db()
+          .from("ubicaciones")
+          .insert(codes.map((codigo) => ({ codigo })))
+          .select(LOCATION_COLUMNS)
+          .returns<LocationRow[]>(),
+      update: async (id, patch) =>
+        db()
+          .from("ubicaciones")
+          .update(patch)
+          .eq("id", id)
+          .select(LOCATION_COLUMNS)
+          .single<LocationRow>(),
+      merge: async (fromId, toId) => {
+        const { error } = await db().rpc("unificar_ubicaciones", {
+          origen: fromId,
+          destino: toId,
+        });
+        return { data: null, error };
+      },
+    },
+    materials: {
+      listActive: async () =>
+        db()
+          .from("materiales")
+          .select("id, nombre, codigo, activo")
+          .eq("activo", true)
+          .order("nombre", { ascending: true })
+          .returns<MaterialRow[]>(),
+    },
+    scrapReasons: {
+      list: async () =>
+        db()
+          .from("motivos_descarte")
+          .select("id, nombre, activo")
+          .order("nombre", { ascending: true })
+          .returns<ScrapReasonRow[]>(),
+    },
+  };
+}
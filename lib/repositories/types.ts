@@ -0,0 +1,371 @@
+export type BundleActionEnum =
+  | "mover"
+  | "asignar"
+  | "desasignar"
+  | "utilizar"
+  | "dividir"
+  | "unir"
+  | "conteo"
+  | "ajustar"
+  | "descartar";
+export type BundleStatusEnum = "disponible" | "asignado" | "usado" | "unido" | "descartado";
+export type OrderStatusEnum =
+  | "borrador"
+  | "operativa"
+  | "pausada"
+  | "completada"
+  | "cancelada";
+export type InventoryCountStatusEnum = "abierto" | "cerrado";
+export type InventoryDiscrepancyEnum = "faltante" | "inesperado" | "diferencia";
+
+export type RepositoryError = {
+  message: string;
+};
+
+/**
+ * Resultado de una operación de acceso a datos. Sigue la misma forma que las
+ * respuestas de Supabase para que los servicios manejen errores igual en
+ * cualquier backend.
+ */
+export type RepositoryResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: RepositoryError };
+
+// Filas tal como se guardan en cada tabla
+
+export type LocationRow = {
+  id: string;
+  codigo: string | null;
+  activo: boolean;
+};
+
+export type ScrapReasonRow = {
+  id: string;
+  nombre: string;
+  activo: boolean;
+};
+
+export type MaterialRow = {
+  id: string;
+  nombre: string;
+  codigo: string | null;
+  activo: boolean | null;
+};
+
+export type OrderRow = {
+  id: string;
+  numero_orden: string;
+  fecha: string | null;
+  cantidad_bultos: number | null;
+  estado: OrderStatusEnum;
+  material_id: string | null;
+  creado_en: string | null;
+  /** Fecha de cancelación; las órdenes canceladas se ocultan por defecto. */
+  cancelada_en: string | null;
+  motivo_cancelacion: string | null;
+};
+
+export type BundleRow = {
+  id: string;
+  orden_corte_id: string;
+  /** Número del bulto original; las divisiones conservan el de su raíz. */
+  numero_bulto: number | null;
+  cantidad_laminas: number | null;
+  ubicacion_id: string | null;
+  estado: BundleStatusEnum | null;
+  num_bobina: string | null;
+  creado_en: string | null;
+  /** Se incrementa en cada actualización; sirve como bloqueo optimista. */
+  version: number;
+  /** Bulto que absorbió a este al unirlos. */
+  unido_a_id: string | null;
+  /** Bulto del que se dividió este; null para los originales. */
+  bulto_padre_id: string | null;
+  /** Posición entre las divisiones del mismo padre, empezando en 1. */
+  numero_hijo: number | null;
+};
+
+export type HistoryRow = {
+  id: string;
+  bulto_id: string;
+  accion: BundleActionEnum | null;
+  ubicacion_destino_id: string | null;
+  numero_trabajo: string | null;
+  fecha_hora: string | null;
+  /** Láminas involucradas en la acción, cuando aplica. */
+  cantidad_laminas: number | null;
+  /** Agrupa las filas registradas por una misma acción para poder deshacerla. */
+  lote_id: string | null;
+  revertido: boolean;
+  estado_anterior: BundleStatusEnum | null;
+  ubicacion_anterior_id: string | null;
+  /** Láminas antes de un ajuste por conteo; null si la acción no las cambió. */
+  laminas_anteriores: number | null;
+  /** Motivo de un ajuste manual de láminas. */
+  motivo: string | null;
+  motivo_descarte_id: string | null;
+};
+
+export type OrderAuditField =
+  | "numero_orden"
+  | "fecha"
+  | "material"
+  | "cantidad_bultos"
+  | "estado"
+  | "bulto_agregado"
+  | "cancelacion";
+
+/** Cambio registrado sobre una orden después de su creación. */
+export type OrderAuditRow = {
+  id: string;
+  orden_corte_id: string;
+  campo: OrderAuditField;
+  valor_anterior: string | null;
+  valor_nuevo: string | null;
+  fecha_hora: string;
+  /** Agrupa los cambios guardados en una misma edición. */
+  lote_id: string | null;
+};
+
+export type OrderTemplateBundle = {
+  cantidad_laminas: number;
+  ubicacion_codigo: string | null;
+  num_bobina: string | null;
+};
+
+/** Material y bultos guardados con un nombre para repetir órdenes. */
+export type OrderTemplateRow = {
+  id: string;
+  nombre: string;
+  material_id: string | null;
+  bultos: OrderTemplateBundle[];
+  creado_en: string | null;
+};
+
+export type InventoryCountLine = {
+  bulto_id: string;
+  /** Láminas contadas; null si solo se marcó como encontrado. */
+  laminas_contadas: number | null;
+};
+
+export type InventoryCountAdjustment = {
+  bulto_id: string;
+  lote_id: string;
+  /** Diferencia que se corrigió, para seguir mostrándola después del ajuste. */
+  tipo: InventoryDiscrepancyEnum;
+};
+
+/** Conteo físico de una ubicación con los bultos encontrados y los ajustes aplicados. */
+export type InventoryCountRow = {
+  id: string;
+  ubicacion_id: string;
+  estado: InventoryCountStatusEnum;
+  lineas: InventoryCountLine[];
+  ajustes: InventoryCountAdjustment[];
+  iniciado_en: string;
+  cerrado_en: string | null;
+};
+
+type OptionalOrderColumns = "cancelada_en" | "motivo_cancelacion";
+
+export type NewOrderRow = Omit<OrderRow, "id" | "creado_en" | OptionalOrderColumns> &
+  Partial<Pick<OrderRow, OptionalOrderColumns>>;
+export type NewOrderAuditRow = Omit<OrderAuditRow, "id">;
+export type NewOrderTemplateRow = Omit<OrderTemplateRow, "id" | "creado_en">;
+type OptionalBundleColumns = "unido_a_id" | "bulto_padre_id" | "numero_hijo";
+
+export type NewBundleRow = Omit<BundleRow, "id" | "creado_en" | "version" | OptionalBundleColumns> &
+  Partial<Pick<BundleRow, OptionalBundleColumns>>;
+type OptionalHistoryColumns =
+  | "cantidad_laminas"
+  | "lote_id"
+  | "estado_anterior"
+  | "ubicacion_anterior_id"
+  | "laminas_anteriores"
+  | "motivo"
+  | "motivo_descarte_id";
+
+export type NewHistoryRow = Omit<HistoryRow, "id" | "revertido" | OptionalHistoryColumns> &
+  Partial<Pick<HistoryRow, OptionalHistoryColumns>>;
+
+export type OrderPatch = Partial<NewOrderRow>;
+export type BundlePatch = Partial<NewBundleRow>;
+export type HistoryPatch = Partial<Pick<HistoryRow, "revertido">>;
+export type LocationPatch = Partial<Pick<LocationRow, "codigo" | "activo">>;
+export type NewInventoryCountRow = Pick<InventoryCountRow, "ubicacion_id">;
+export type InventoryCountPatch = Partial<
+  Pick<InventoryCountRow, "estado" | "lineas" | "ajustes" | "cerrado_en">
+>;
+
+// Lecturas anidadas usadas por las vistas
+
+export type BundleHistoryRecord = {
+  id: string;
+  accion: BundleActionEnum | null;
+  numero_trabajo: string | null;
+  fecha_hora: string | null;
+  cantidad_laminas: number | null;
+  laminas_anteriores: number | null;
+  motivo: string | null;
+  revertido: boolean | null;
+  ubicacion_destino: Omit<LocationRow, "activo"> | null;
+  motivo_descarte: Omit<ScrapReasonRow, "activo"> | null;
+};
+
+export type BundleRecord = {
+  id: string;
+  numero_bulto: number | null;
+  cantidad_laminas: number | null;
+  estado: BundleStatusEnum | null;
+  ubicacion: Omit<LocationRow, "activo"> | null;
+  historial: BundleHistoryRecord[] | null;
+  creado_en?: string | null;
+  num_bobina?: string | null;
+  version: number;
+  bulto_padre_id: string | null;
+  numero_hijo: number | null;
+};
+
+export type CutOrderRecord = {
+  id: string;
+  numero_orden: string;
+  fecha: string | null;
+  cantidad_bultos: number | null;
+  estado: OrderStatusEnum;
+  cancelada_en: string | null;
+  motivo_cancelacion: string | null;
+  bultos: BundleRecord[] | null;
+  material: Omit<MaterialRow, "activo"> | null;
+};
+
+export type DashboardBundleRecord = {
+  id: string;
+  numero_bulto: number | null;
+  bulto_padre_id: string | null;
+  numero_hijo: number | null;
+  cantidad_laminas: number | null;
+  estado: string | null;
+  num_bobina: string | null;
+  ubicacion: { codigo: string | null } | null;
+  orden_corte: {
+    numero_orden: string;
+    fecha: string | null;
+    cancelada_en: string | null;
+    material: { id: string; nombre: string } | null;
+  } | null;
+};
+
+export type DashboardBundleQuery = {
+  estado?: string;
+  numBobina?: string;
+};
+
+// Repositorios
+
+export type OrderRepository = {
+  /** Órdenes con material, bultos e historial, de la más reciente a la más antigua. */
+  list(): Promise<RepositoryResult<CutOrderRecord[]>>;
+  findById(id: string): Promise<RepositoryResult<OrderRow>>;
+  /** Órdenes con alguno de los números indicados, incluidas las canceladas. */
+  findByNumbers(numbers: string[]): Promise<RepositoryResult<OrderRow[]>>;
+  insert(row: NewOrderRow): Promise<RepositoryResult<OrderRow>>;
+  update(id: string, patch: OrderPatch): Promise<RepositoryResult<OrderRow[]>>;
+  remove(id: string): Promise<RepositoryResult<null>>;
+};
+
+export type OrderAuditRepository = {
+  /** Cambios de la orden, del más reciente al más antiguo. */
+  listByOrder(orderId: string): Promise<RepositoryResult<OrderAuditRow[]>>;
+  insert(rows: NewOrderAuditRow[]): Promise<RepositoryResult<OrderAuditRow[]>>;
+  /** Solo para deshacer una edición que no se pudo completar. */
+  remove(ids: string[]): Promise<RepositoryResult<null>>;
+};
+
+export type OrderTemplateRepository = {
+  /** Plantillas ordenadas por nombre. */
+  list(): Promise<RepositoryResult<OrderTemplateRow[]>>;
+  insert(row: NewOrderTemplateRow): Promise<RepositoryResult<OrderTemplateRow>>;
+  remove(id: string): Promise<RepositoryResult<null>>;
+};
+
+export type BundleRepository = {
+  findById(id: string): Promise<RepositoryResult<BundleRow>>;
+  listByIds(ids: string[]): Promise<RepositoryResult<BundleRow[]>>;
+  listByOrder(orderId: string): Promise<RepositoryResult<BundleRow[]>>;
+  listByLocation(locationId: string): Promise<RepositoryResult<BundleRow[]>>;
+  /** Bultos con ubicación y orden, ordenados por número de bulto. */
+  listForDashboard(query: DashboardBundleQuery): Promise<RepositoryResult<DashboardBundleRecord[]>>;
+  insert(rows: NewBundleRow[]): Promise<RepositoryResult<BundleRow[]>>;
+  update(ids: string[], patch: BundlePatch): Promise<RepositoryResult<BundleRow[]>>;
+  /**
+   * Actualiza el bulto solo si su versión sigue siendo `version`. Devuelve
+   * null cuando otro proceso lo modificó antes.
+   */
+  updateIfVersion(
+    id: string,
+    version: number,
+    patch: BundlePatch,
+  ): Promise<RepositoryResult<BundleRow | null>>;
+  remove(ids: string[]): Promise<RepositoryResult<null>>;
+};
+
+export type HistoryQuery = {
+  accion: BundleActionEnum;
+  /** Fecha ISO inclusiva. */
+  desde?: string;
+  /** Fecha ISO exclusiva. */
+  hasta?: string;
+};
+
+export type HistoryRepository = {
+  listByBatch(batchId: string): Promise<RepositoryResult<HistoryRow[]>>;
+  listByBundles(bundleIds: string[]): Promise<RepositoryResult<HistoryRow[]>>;
+  /** Acciones de un tipo en el período, sin las revertidas, de la más antigua a la más reciente. */
+  listByAction(query: HistoryQuery): Promise<RepositoryResult<HistoryRow[]>>;
+  insert(rows: NewHistoryRow[]): Promise<RepositoryResult<HistoryRow[]>>;
+  update(ids: string[], patch: HistoryPatch): Promise<RepositoryResult<HistoryRow[]>>;
+};
+
+export type InventoryCountRepository = {
+  /** Conteos del más reciente al más antiguo. */
+  list(): Promise<RepositoryResult<InventoryCountRow[]>>;
+  findById(id: string): Promise<RepositoryResult<InventoryCountRow>>;
+  /** Falla si la ubicación ya tiene un conteo abierto. */
+  insert(row: NewInventoryCountRow): Promise<RepositoryResult<InventoryCountRow>>;
+  update(id: string, patch: InventoryCountPatch): Promise<RepositoryResult<InventoryCountRow>>;
+};
+
+export type LocationRepository = {
+  /** Ubicaciones activas e inactivas, ordenadas alfabéticamente por código. */
+  list(): Promise<RepositoryResult<LocationRow[]>>;
+  findByCodes(codes: string[]): Promise<RepositoryResult<LocationRow[]>>;
+  insert(codes: string[]): Promise<RepositoryResult<LocationRow[]>>;
+  update(id: string, patch: LocationPatch): Promise<RepositoryResult<LocationRow>>;
+  /**
+   * Pasa a `toId` todo lo que apunta a `fromId` (bultos, historial, conteos y
+   * el código en las plantillas) y elimina `fromId`. Si falla, nada cambia.
+   */
+  merge(fromId: string, toId: string): Promise<RepositoryResult<null>>;
+};
+
+export type MaterialRepository = {
+  /** Materiales activos ordenados por nombre. */
+  listActive(): Promise<RepositoryResult<MaterialRow[]>>;
+};
+
+export type ScrapReasonRepository = {
+  /** Motivos de descarte, activos e inactivos, ordenados por nombre. */
+  list(): Promise<RepositoryResult<ScrapReasonRow[]>>;
+};
+
+export type DataRepository = {
+  orders: OrderRepository;
+  orderAudit: OrderAuditRepository;
+  orderTemplates: OrderTemplateRepository;
+  bundles: BundleRepository;
+  history: HistoryRepository;
+  inventoryCounts: InventoryCountRepository;
+  locations: LocationRepository;
+  materials: MaterialRepository;
+  scrapReasons: ScrapReasonRepository;
+};
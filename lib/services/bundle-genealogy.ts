@@ -0,0 +1,57 @@
+/**
+ * Datos mínimos para ubicar un bulto en su árbol de divisiones. Los bultos
+ * originales no tienen padre y se identifican por `numero_bulto`; cada
+ * división apunta a su padre y numera sus hermanos con `numero_hijo`.
+ */
+export type BundleLineage = {
+  id: string;
+  numero_bulto: number | null;
+  bulto_padre_id: string | null;
+  numero_hijo: number | null;
+};
+
+/**
+ * Ruta del bulto desde el original, p. ej. [3, 2, 1] para la primera división
+ * de la segunda división del bulto 3. Devuelve null si no tiene número.
+ */
+export const getGenealogyPath = (
+  bundle: BundleLineage,
+  bundlesById: Map<string, BundleLineage>,
+): number[] | null => {
+  const childNumbers: number[] = [];
+  const visited = new Set<string>();
+  let current = bundle;
+
+  while (current.bulto_padre_id && current.numero_hijo !== null && !visited.has(current.id)) {
+    const parent = bundlesById.get(current.bulto_padre_id);
+    if (!parent) break;
+    visited.add(current.id);
+    childNumbers.unshift(current.numero_hijo);
+    current = parent;
+  }
+
+  if (current.numero_bulto === null) return null;
+  return [current.numero_bulto, ...childNumbers];
+};
+
+export const formatGenealogyCode = (path: number[] | null) =>
+  path ? path.join(".") : null;
+
+export const compareGenealogyPaths = (a: number[] | null, b: number[] | null) => {
+  if (!a && !b) return 0;
+  if (!a) return 1;
+  if (!b) return -1;
+  const length = Math.min(a.length, b.length);
+  for (let index = 0; index < length; index += 1) {
+    if (a[index] !== b[index]) return a[index] - b[index];
+  }
+  return a.length - b.length;
+};
+
+/** Calcula la ruta de cada bulto de la lista, indexada por id. */
+export const buildGenealogyPaths = (bundles: BundleLineage[]) => {
+  const bundlesById = new Map(bundles.map((bundle) => [bundle.id, bundle]));
+  return new Map(
+    bundles.map((bundle) => [bundle.id, getGenealogyPath(bundle, bundlesById)]),
+  );
+};
@@ -0,0 +1,263 @@
+import { BundleStatusEnum, getRepository, OrderStatusEnum } from "@/lib/repositories";
+import { buildGenealogyPaths, formatGenealogyCode } from "./bundle-genealogy";
+import { applyBundleAction, BundleAction, BundleActionResult } from "./cut-orders";
+
+/** Lo que representa un código leído con el escáner. */
+export type ScanTarget =
+  | { kind: "bundle"; bundleId: string; orderId: string; orderStatus: OrderStatusEnum }
+  | { kind: "location"; code: string }
+  /** `known` indica si ya hubo bultos asignados a esa orden de trabajo. */
+  | { kind: "workOrder"; code: string; known: boolean };
+
+export type ScannedActionResult = BundleActionResult & {
+  action: BundleAction;
+  message: string;
+};
+
+/** Bulto leído en "Mover por escaneo", que admite bultos de cualquier orden. */
+export type ScannedBundle = {
+  id: string;
+  name: string;
+  orderId: string;
+  orderCode: string;
+  orderStatus: OrderStatusEnum;
+  status: BundleStatusEnum | null;
+  locationCode: string | null;
+  sheets: number;
+};
+
+export type ScanMoveResult = {
+  orderCode: string;
+  bundleCount: number;
+  batchId: string | null;
+  error: string | null;
+};
+
+// Estados finales: el bulto ya no se puede mover, asignar ni utilizar.
+const closedStatusMessages: Partial<Record<BundleStatusEnum, string>> = {
+  usado: "ya fue utilizado",
+  unido: "fue unido a otro bulto",
+  descartado: "fue descartado",
+};
+
+/** Por qué un bulto ya no admite acciones, p. ej. "ya fue utilizado"; null si sigue en stock. */
+export const closedBundleReason = (bundle: ScannedBundle) =>
+  (bundle.status && closedStatusMessages[bundle.status]) || null;
+
+const closedBundleMessage = (bundle: ScannedBundle) => {
+  const reason = closedBundleReason(bundle);
+  return reason ? `${bundle.name} de ${bundle.orderCode} ${reason}.` : null;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Interpreta un código escaneado: los ids de bulto vienen de las etiquetas,
+ * las ubicaciones se buscan en el catálogo y cualquier otro código se toma
+ * como orden de trabajo. Como una ubicación mal escrita también cae ahí, se
+ * informa si la orden ya se usó para que la interfaz pida confirmarla.
+ */
+export async function resolveScan(value: string): Promise<ScanTarget> {
+  const code = value.trim();
+  if (!code) {
+    throw new Error("El código escaneado está vacío.");
+  }
+
+  const repository = getRepository();
+
+  if (UUID_PATTERN.test(code)) {
+    const { data: bundles, error } = await repository.bundles.listByIds([code.toLowerCase()]);
+    if (error) {
+      throw new Error(`No se pudo buscar el bulto: ${error.message}`);
+    }
+    const bundle = bundles[0];
+    if (!bundle) {
+      throw new Error("El código no corresponde a ningún bulto.");
+    }
+
+    const { data: order, error: orderError } = await repository.orders.findById(
+      bundle.orden_corte_id,
+    );
+    if (orderError) {
+      throw new Error(`No se pudo leer la orden del bulto: ${orderError.message}`);
+    }
+    return { kind: "bundle", bundleId: bundle.id, orderId: order.id, orderStatus: order.estado };
+  }
+
+  const { data: locations, error: locationsError } = await repository.locations.list();
+  if (locationsError) {
+    throw new Error(`No se pudieron cargar las ubicaciones: ${locationsError.message}`);
+  }
+  const location = locations.find(
+    (item) => item.codigo?.trim().toLowerCase() === code.toLowerCase(),
+  );
+  if (location?.codigo) {
+    if (!location.activo) {
+      throw new Error(`La ubicación ${location.codigo} está inactiva.`);
+    }
+    return { kind: "location", code: location.codigo };
+  }
+
+  const { data: assignments, error: assignmentsError } = await repository.history.listByAction({
+    accion: "asignar",
+  });
+  if (assignmentsError) {
+    throw new Error(`No se pudieron leer las órdenes de trabajo: ${assignmentsError.message}`);
+  }
+  const known = assignments.some(
+    (entry) => entry.numero_trabajo?.trim().toLowerCase() === code.toLowerCase(),
+  );
+
+  return { kind: "workOrder", code, known };
+}
+
+const readAssignedWorkOrder = async (bundleId: string) => {
+  const { data: history, error } = await getRepository().history.listByBundles([bundleId]);
+  if (error) {
+    throw new Error(`No se pudo leer la asignación del bulto: ${error.message}`);
+  }
+  const assignments = history
+    .filter((entry) => entry.accion === "asignar" && !entry.revertido)
+    .sort((a, b) => (a.fecha_hora ?? "").localeCompare(b.fecha_hora ?? ""));
+  return assignments[assignments.length - 1]?.numero_trabajo ?? null;
+};
+
+/**
+ * Aplica la acción que corresponde al segundo escaneo: una ubicación mueve el
+ * bulto, una orden de trabajo lo asigna y volver a escanear la orden a la que
+ * ya está asignado lo marca como utilizado. El bulto se vuelve a leer porque
+ * entre los dos escaneos pudo cambiar.
+ */
+export async function applyScannedAction(
+  bundleId: string,
+  target: Extract<ScanTarget, { kind: "location" | "workOrder" }>,
+): Promise<ScannedActionResult> {
+  const bundle = await fetchScannedBundle(bundleId);
+  const closedMessage = closedBundleMessage(bundle);
+  if (closedMessage) {
+    throw new Error(closedMessage);
+  }
+
+  if (target.kind === "location") {
+    const result = await applyBundleAction({
+      bundleIds: [bundle.id],
+      action: "mover",
+      destinationCode: target.code,
+    });
+    return { ...result, action: "mover", message: `${bundle.name} movido a ${target.code}.` };
+  }
+
+  if (
+    bundle.status === "asignado"
+    && (await readAssignedWorkOrder(bundle.id)) === target.code
+  ) {
+    const result = await applyBundleAction({ bundleIds: [bundle.id], action: "utilizar" });
+    return {
+      ...result,
+      action: "utilizar",
+      message: `${bundle.name} utilizado en la orden de trabajo ${target.code}.`,
+    };
+  }
+
+  const result = await applyBundleAction({
+    bundleIds: [bundle.id],
+    action: "asignar",
+    orderNumber: target.code,
+  });
+  return {
+    ...result,
+    action: "asignar",
+    message: `${bundle.name} asignado a la orden de trabajo ${target.code}.`,
+  };
+}
+
+const findBundleOrderId = async (bundleId: string) => {
+  const { data: bundles, error } = await getRepository().bundles.listByIds([bundleId]);
+  if (error) {
+    throw new Error(`No se pudo buscar el bulto: ${error.message}`);
+  }
+  if (!bundles[0]) {
+    throw new Error("El código no corresponde a ningún bulto.");
+  }
+  return bundles[0].orden_corte_id;
+};
+
+export async function fetchScannedBundle(bundleId: string): Promise<ScannedBundle> {
+  const repository = getRepository();
+  const { data: order, error: orderError } = await repository.orders.findById(
+    await findBundleOrderId(bundleId),
+  );
+  if (orderError) {
+    throw new Error(`No se pudo leer la orden del bulto: ${orderError.message}`);
+  }
+
+  const [{ data: orderBundles, error: bundlesError }, { data: locations, error: locationsError }] =
+    await Promise.all([repository.bundles.listByOrder(order.id), repository.locations.list()]);
+  if (bundlesError) {
+    throw new Error(`No se pudieron leer los bultos de la orden: ${bundlesError.message}`);
+  }
+  if (locationsError) {
+    throw new Error(`No se pudieron cargar las ubicaciones: ${locationsError.message}`);
+  }
+
+  const bundle = orderBundles.find((item) => item.id === bundleId);
+  if (!bundle) {
+    throw new Error("El código no corresponde a ningún bulto.");
+  }
+  const genealogyCode = formatGenealogyCode(
+    buildGenealogyPaths(orderBundles).get(bundle.id) ?? null,
+  );
+  const location = locations.find((item) => item.id === bundle.ubicacion_id);
+
+  return {
+    id: bundle.id,
+    name: genealogyCode ? `Bulto #${genealogyCode}` : "Bulto sin número",
+    orderId: order.id,
+    orderCode: order.numero_orden,
+    orderStatus: order.estado,
+    status: bundle.estado,
+    locationCode: location?.codigo ?? null,
+    sheets: bundle.cantidad_laminas ?? 0,
+  };
+}
+
+/**
+ * Mueve los bultos escaneados con una acción por orden, para que cada una se
+ * pueda deshacer por separado. Los que ya están en el destino se omiten; si
+ * una orden falla se informa y se sigue con las demás.
+ */
+export async function moveScannedBundles({
+  destinationCode,
+  bundles,
+}: {
+  destinationCode: string;
+  bundles: ScannedBundle[];
+}): Promise<ScanMoveResult[]> {
+  const byOrder = new Map<string, ScannedBundle[]>();
+  bundles
+    .filter((bundle) => bundle.locationCode !== destinationCode && !closedBundleReason(bundle))
+    .forEach((bundle) => {
+      byOrder.set(bundle.orderId, [...(byOrder.get(bundle.orderId) ?? []), bundle]);
+    });
+
+  const results: ScanMoveResult[] = [];
+  for (const orderBundles of byOrder.values()) {
+    const orderCode = orderBundles[0].orderCode;
+    try {
+      const { batchId } = await applyBundleAction({
+        bundleIds: orderBundles.map((bundle) => bundle.id),
+        action: "mover",
+        destinationCode,
+      });
+      results.push({ orderCode, bundleCount: orderBundles.length, batchId, error: null });
+    } catch (moveError) {
+      results.push({
+        orderCode,
+        bundleCount: orderBundles.length,
+        batchId: null,
+        error: moveError instanceof Error ? moveError.message : "No se pudieron mover los bultos.",
+      });
+    }
+  }
+  return results;
+}
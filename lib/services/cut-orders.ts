@@ -1,5 +1,44 @@
-import { supabase } from "@/lib/supabase-client";
-import { Bundle, BundleHistoryEntry, CutOrder, Material } from "@/types/cut-order";
+import {
+  BundleActionEnum,
+  BundleRecord,
+  BundleHistoryRecord,
+  BundlePatch,
+  BundleRow,
+  BundleStatusEnum,
+  CutOrderRecord,
+  getRepository,
+  NewHistoryRow,
+  NewOrderAuditRow,
+  OrderAuditField,
+  OrderPatch,
+  OrderStatusEnum,
+} from "@/lib/repositories";
+import { createId } from "@/lib/ids";
+import {
+  Bundle,
+  BundleHistoryEntry,
+  CutOrder,
+  Material,
+  OrderAuditEntry,
+} from "@/types/cut-order";
+import {
+  buildGenealogyPaths,
+  compareGenealogyPaths,
+  formatGenealogyCode,
+} from "./bundle-genealogy";
+import {
+  assertValidCutOrderInput,
+  checkOrderCodeAvailable,
+  normalizeOrderCode,
+  validateBundleInput,
+  validateOrderCode,
+  validateOrderDate,
+} from "./order-validation";
+import {
+  canChangeOrderStatus,
+  orderAcceptsBundleChanges,
+  orderStatusLabels,
+} from "./order-lifecycle";
 
 const DATE_FORMATTER = new Intl.DateTimeFormat("es-AR", {
   day: "2-digit",
@@ -12,92 +51,52 @@ const DATETIME_FORMATTER = new Intl.DateTimeFormat("es-AR", {
   timeStyle: "short",
 });
 
-type SupabaseLocation = {
-  id: string;
-  codigo: string | null;
-};
-
-type BundleActionEnum = "mover" | "asignar" | "utilizar" | "dividir";
-type BundleStatusEnum = "disponible" | "asignado" | "usado";
-
 const bundleActionLabels: Record<BundleActionEnum, string> = {
   mover: "Mover",
   asignar: "Asignar",
+  desasignar: "Desasignar",
   utilizar: "Utilizar",
   dividir: "Dividir",
+  unir: "Unir",
+  conteo: "Ajuste por conteo",
+  ajustar: "Ajuste de láminas",
+  descartar: "Descartar",
+};
+
+export type SheetAdjustmentReason = "recuento" | "danio" | "desperdicio" | "error_medicion";
+
+export const sheetAdjustmentReasonLabels: Record<SheetAdjustmentReason, string> = {
+  recuento: "Recuento",
+  danio: "Daño",
+  desperdicio: "Desperdicio",
+  error_medicion: "Error de medición",
+};
+
+const isSheetAdjustmentReason = (value: string): value is SheetAdjustmentReason =>
+  value in sheetAdjustmentReasonLabels;
+
+const describeSheetChangeReason = (entry: BundleHistoryRecord) => {
+  if (entry.accion === "conteo") return "Conteo de inventario";
+  if (entry.motivo && isSheetAdjustmentReason(entry.motivo)) {
+    return sheetAdjustmentReasonLabels[entry.motivo];
+  }
+  return entry.motivo ?? "Sin motivo";
 };
 
 const bundleStatusLabels: Record<BundleStatusEnum, { badge: string; availability: string }> = {
   disponible: { badge: "Disponible", availability: "Disponible" },
   asignado: { badge: "Asignado", availability: "Asignado" },
   usado: { badge: "Utilizado", availability: "Utilizado" },
+  unido: { badge: "Unido", availability: "Unido a otro bulto" },
+  descartado: { badge: "Descartado", availability: "Descartado" },
 };
 
 const bundleStatusByAction: Partial<Record<BundleActionEnum, BundleStatusEnum>> = {
   asignar: "asignado",
+  desasignar: "disponible",
   utilizar: "usado",
 };
 
-type SupabaseBundleHistory = {
-  id: string;
-  accion: BundleActionEnum | null;
-  numero_trabajo: string | null;
-  fecha_hora: string | null;
-  ubicacion_destino: SupabaseLocation | null;
-};
-
-type SupabaseBundle = {
-  id: string;
-  numero_bulto: number | null;
-  cantidad_laminas: number | null;
-  estado: BundleStatusEnum | null;
-  ubicacion: SupabaseLocation | null;
-  historial: SupabaseBundleHistory[] | null;
-  creado_en?: string | null;
-  num_bobina?: string | null;
-};
-
-type SupabaseMaterial = {
-  id: string;
-  nombre: string;
-  codigo: string | null;
-};
-
-type SupabaseCutOrder = {
-  id: string;
-  numero_orden: string;
-  fecha: string | null;
-  cantidad_bultos: number | null;
-  activo: boolean | null;
-  bultos: SupabaseBundle[] | null;
-  material: SupabaseMaterial | null;
-};
-
-const BUNDLE_SPLIT_NUMBER_FACTOR = 1000;
-
-type BundleNumberInfo = {
-  base: number | null;
-  variant: number | null;
-};
-
-const decodeBundleNumber = (value: number | null): BundleNumberInfo => {
-  if (value === null || Number.isNaN(value)) {
-    return { base: null, variant: null };
-  }
-
-  if (value >= BUNDLE_SPLIT_NUMBER_FACTOR) {
-    const base = Math.floor(value / BUNDLE_SPLIT_NUMBER_FACTOR);
-    const variant = value % BUNDLE_SPLIT_NUMBER_FACTOR || 1;
-    return { base, variant };
-  }
-
-  return { base: value, variant: 1 };
-};
-
-const encodeBundleNumber = (base: number, variant: number) => {
-  return base * BUNDLE_SPLIT_NUMBER_FACTOR + variant;
-};
-
 const formatDate = (value: string | null) => {
   if (!value) return "Sin fecha";
   const parsed = new Date(value);
@@ -113,7 +112,7 @@ const formatDateTime = (value: string | null) => {
 };
 
 const normalizeHistory = (
-  history: SupabaseBundleHistory[] | null,
+  history: BundleHistoryRecord[] | null,
 ): BundleHistoryEntry[] => {
   if (!Array.isArray(history)) return [];
   return history
@@ -123,40 +122,62 @@ const normalizeHistory = (
       return dateA - dateB;
     })
     .map((entry) => {
-      const actionLabel = entry.accion
+      const baseLabel = entry.accion
         ? bundleActionLabels[entry.accion]
         : "Actualización";
+      const actionLabel =
+        (entry.accion === "utilizar" || entry.accion === "descartar") && entry.cantidad_laminas
+          ? `${baseLabel} (${entry.cantidad_laminas.toLocaleString("es-ES")} lám.)`
+          : baseLabel;
       const displayLocation =
         entry.accion === "asignar"
+        || entry.accion === "desasignar"
+        || entry.accion === "utilizar"
           ? entry.numero_trabajo ?? "-"
-          : entry.ubicacion_destino?.codigo ?? "-";
+          : entry.accion === "descartar"
+            ? entry.motivo_descarte?.nombre ?? "-"
+            : entry.accion === "conteo" && entry.motivo === MISSING_COUNT_REASON
+              ? "Faltante"
+              : entry.ubicacion_destino?.codigo ?? "-";
       return {
         action: actionLabel,
         location: displayLocation,
         date: formatDateTime(entry.fecha_hora),
+        reverted: Boolean(entry.revertido),
+        sheetChange:
+          (entry.accion === "ajustar" || entry.accion === "conteo")
+          && entry.laminas_anteriores !== null
+          && entry.cantidad_laminas !== null
+            ? {
+                before: entry.laminas_anteriores,
+                after: entry.cantidad_laminas,
+                reason: describeSheetChangeReason(entry),
+              }
+            : undefined,
       };
     });
 };
 
-const mapBundle = (bundle: SupabaseBundle): Bundle => {
-  const numberInfo = decodeBundleNumber(bundle.numero_bulto);
-  const baseNumber = numberInfo.base;
+const mapBundle = (bundle: BundleRecord, genealogyPath: number[] | null): Bundle => {
+  const genealogyCode = formatGenealogyCode(genealogyPath);
   const rawHistory = Array.isArray(bundle.historial) ? [...bundle.historial] : [];
   const history = normalizeHistory(rawHistory);
   const lastWorkOrderEntry = [...rawHistory]
     .reverse()
-    .find((entry) => entry.numero_trabajo && entry.numero_trabajo.trim().length > 0);
+    .find(
+      (entry) =>
+        !entry.revertido && entry.numero_trabajo && entry.numero_trabajo.trim().length > 0,
+    );
   const latestWorkOrder =
     bundle.estado === "disponible"
       ? "Sin orden"
       : lastWorkOrderEntry?.numero_trabajo ?? "Sin orden";
   const statusInfo = bundle.estado ? bundleStatusLabels[bundle.estado] : null;
-  const baseName = baseNumber ? `Bulto #${baseNumber}` : "Bulto sin número";
   return {
     id: String(bundle.id),
-    name: baseName,
-    baseName,
-    rawNumber: baseNumber,
+    name: genealogyCode ? `Bulto #${genealogyCode}` : "Bulto sin número",
+    genealogyCode,
+    parentId: bundle.bulto_padre_id,
     createdAt: bundle.creado_en ?? "",
     currentLocation: bundle.ubicacion?.codigo ?? "Sin ubicación",
     sheets: bundle.cantidad_laminas ?? 0,
@@ -164,16 +185,25 @@ const mapBundle = (bundle: SupabaseBundle): Bundle => {
     availability: statusInfo?.availability ?? "Sin estado",
     status: statusInfo?.badge ?? "Sin estado",
     num_bobina: bundle.num_bobina ?? "",
+    version: bundle.version,
     history,
   };
 };
 
-const mapCutOrder = (order: SupabaseCutOrder): CutOrder => {
-  const bundles = (order.bultos ?? []).map(mapBundle);
-  applyBundleDisplayNames(bundles);
+const mapCutOrder = (order: CutOrderRecord): CutOrder => {
+  const records = order.bultos ?? [];
+  const paths = buildGenealogyPaths(records);
+  const bundles = [...records]
+    .sort((a, b) => compareGenealogyPaths(paths.get(a.id) ?? null, paths.get(b.id) ?? null))
+    .map((bundle) => mapBundle(bundle, paths.get(bundle.id) ?? null));
   const bundleCount = order.cantidad_bultos ?? bundles.length;
   const completedBundles = Math.min(bundleCount, bundles.length);
-  const usedBundles = bundles.filter((bundle) => bundle.status === "Utilizado").length;
+  const usedBundles = bundles.filter(
+    (bundle) =>
+      bundle.status === "Utilizado"
+      || bundle.status === "Unido"
+      || bundle.status === "Descartado",
+  ).length;
   const pendingBundles = Math.max(0, bundleCount - usedBundles);
   const defaultLocation = bundles[0]?.currentLocation ?? "Sin ubicación";
   const code = order.numero_orden ?? "SIN-CODIGO";
@@ -189,8 +219,9 @@ const mapCutOrder = (order: SupabaseCutOrder): CutOrder => {
     code,
     label: `Orden de corte #${code}`,
     date: formatDate(order.fecha),
-    status: order.activo ? "Activo" : "Inactivo",
-    workflowStatus: order.activo ? "Operativa" : "Pausada",
+    rawDate: order.fecha,
+    status: orderStatusLabels[order.estado] ?? "Operativa",
+    cancellationReason: order.motivo_cancelacion,
     locationFilter: defaultLocation,
     completedBundles,
     pendingBundles,
@@ -199,70 +230,24 @@ const mapCutOrder = (order: SupabaseCutOrder): CutOrder => {
   };
 };
 
-const applyBundleDisplayNames = (bundles: Bundle[]) => {
-  const groups = new Map<string, Bundle[]>();
-  bundles.forEach((bundle) => {
-    const key = bundle.rawNumber !== null ? String(bundle.rawNumber) : bundle.id;
-    const list = groups.get(key);
-    if (list) {
-      list.push(bundle);
-    } else {
-      groups.set(key, [bundle]);
-    }
-  });
-
-  groups.forEach((group) => {
-    if (group.length <= 1) return;
-    group
-      .sort((a, b) => {
-        const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-        const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-        return dateA - dateB;
-      })
-      .forEach((bundle, index) => {
-        bundle.name = `${bundle.baseName} - ${index + 1}`;
-      });
-  });
-};
-
-export async function fetchCutOrders(): Promise<CutOrder[]> {
-  const { data, error } = await supabase
-    .from("ordenes_corte")
-    .select(
-      `
-        id,
-        numero_orden,
-        fecha,
-        cantidad_bultos,
-        activo,
-        material:materiales ( id, nombre, codigo ),
-        bultos:bultos (
-          id,
-          numero_bulto,
-          cantidad_laminas,
-          estado,
-          creado_en,
-          num_bobina,
-          ubicacion:ubicaciones ( id, codigo ),
-          historial:historial_bultos (
-            id,
-            accion,
-            numero_trabajo,
-            fecha_hora,
-            ubicacion_destino:ubicaciones ( id, codigo )
-          )
-        )
-      `,
-    )
-    .returns<SupabaseCutOrder[]>()
-    .order("creado_en", { ascending: false });
+export async function fetchCutOrders({
+  includeCancelled = false,
+}: { includeCancelled?: boolean } = {}): Promise<CutOrder[]> {
+  const { data, error } = await getRepository().orders.list();
 
   if (error) {
     throw new Error(`No se pudieron cargar las órdenes: ${error.message}`);
   }
 
-  const orders = (data ?? []) as SupabaseCutOrder[];
-  return orders.map(mapCutOrder);
+  return data
+    .filter((order) => includeCancelled || order.estado !== "cancelada")
+    .map(mapCutOrder);
+}
+
+/** Una orden con sus bultos, incluso si está cancelada. */
+export async function fetchCutOrder(orderId: string): Promise<CutOrder | null> {
+  const orders = await fetchCutOrders({ includeCancelled: true });
+  return orders.find((order) => order.id === orderId) ?? null;
 }
 
 export type CreateBundleInput = {
@@ -280,8 +265,8 @@ export type CreateCutOrderInput = {
   code: string;
   date: string;
   label?: string;
-  status?: "Activo" | "Inactivo";
-  workflowStatus?: string;
+  /** Las órdenes en borrador no admiten movimientos hasta activarlas. */
+  status?: Extract<OrderStatusEnum, "borrador" | "operativa">;
   locationFilter?: string;
   materialId?: string;
   bundles: CreateBundleInput[];
@@ -294,43 +279,39 @@ const normalizeLocationCode = (value?: string): string | null => {
   return normalized;
 };
 
-const ensureLocationMap = async (codes: string[]): Promise<Record<string, string>> => {
+/**
+ * Traduce códigos a ids de ubicación. Solo acepta ubicaciones del catálogo que
+ * sigan activas; las nuevas se dan de alta desde la página de ubicaciones.
+ */
+const resolveLocationMap = async (codes: string[]): Promise<Record<string, string>> => {
   if (codes.length === 0) return {};
   const uniqueCodes = Array.from(new Set(codes));
   const map = new Map<string, string>();
+  const inactive: string[] = [];
 
-  const { data: existing, error: fetchError } = await supabase
-    .from("ubicaciones")
-    .select("id, codigo")
-    .in("codigo", uniqueCodes);
+  const { data: existing, error: fetchError } =
+    await getRepository().locations.findByCodes(uniqueCodes);
 
   if (fetchError) {
     throw new Error(`No se pudieron leer las ubicaciones: ${fetchError.message}`);
   }
 
-  (existing ?? []).forEach((location) => {
-    if (location.codigo) {
+  existing.forEach((location) => {
+    if (!location.codigo) return;
+    if (location.activo) {
       map.set(location.codigo, location.id);
+    } else {
+      inactive.push(location.codigo);
     }
   });
 
-  const missing = uniqueCodes.filter((code) => !map.has(code));
-
-  if (missing.length > 0) {
-    const { data: inserted, error: insertError } = await supabase
-      .from("ubicaciones")
-      .insert(missing.map((code) => ({ codigo: code })))
-      .select("id, codigo");
-
-    if (insertError) {
-      throw new Error(`No se pudieron crear ubicaciones: ${insertError.message}`);
-    }
+  if (inactive.length > 0) {
+    throw new Error(`Ubicación inactiva: ${inactive.join(", ")}.`);
+  }
 
-    (inserted ?? []).forEach((location) => {
-      if (location.codigo) {
-        map.set(location.codigo, location.id);
-      }
-    });
+  const unknown = uniqueCodes.filter((code) => !map.has(code));
+  if (unknown.length > 0) {
+    throw new Error(`Ubicación desconocida: ${unknown.join(", ")}.`);
   }
 
   return Object.fromEntries(map);
@@ -346,17 +327,51 @@ const bundleStatusFromInput = (value?: string): BundleStatusEnum => {
   return DEFAULT_BUNDLE_STATUS;
 };
 
-export async function createCutOrder(input: CreateCutOrderInput) {
-  const isActive = input.status !== "Inactivo";
-  
-  // Validar que hay al menos un bulto con información válida
-  const validBundles = input.bundles.filter(
-    (bundle) => bundle.currentLocation && bundle.sheets && bundle.sheets > 0
-  );
+/**
+ * Elimina lo creado por un `createCutOrder` que falló a mitad de camino.
+ * Devuelve false si la limpieza no se pudo completar.
+ */
+const rollbackCutOrderCreation = async (orderId: string, bundleIds: string[]) => {
+  const repository = getRepository();
+
+  if (bundleIds.length > 0) {
+    const { error: bundlesError } = await repository.bundles.remove(bundleIds);
+    if (bundlesError) {
+      console.error(
+        `No se pudieron eliminar los bultos de la orden ${orderId}:`,
+        bundlesError.message,
+      );
+      return false;
+    }
+  }
+
+  const { error: orderError } = await repository.orders.remove(orderId);
+  if (orderError) {
+    console.error(`No se pudo eliminar la orden ${orderId}:`, orderError.message);
+    return false;
+  }
 
-  if (validBundles.length === 0) {
-    throw new Error("Debes agregar al menos un bulto con ubicación y cantidad de láminas.");
+  return true;
+};
+
+const failCutOrderCreation = async (
+  orderId: string,
+  bundleIds: string[],
+  reason: string,
+): Promise<never> => {
+  const rolledBack = await rollbackCutOrderCreation(orderId, bundleIds);
+  if (rolledBack) {
+    throw new Error(`${reason}. La orden no se guardó; puedes volver a intentarlo.`);
   }
+  throw new Error(
+    `${reason}. No se pudo deshacer la creación parcial: revisa la orden antes de volver a intentarlo.`,
+  );
+};
+
+export async function createCutOrder(input: CreateCutOrderInput) {
+  // Los bultos incompletos se rechazan en lugar de descartarse en silencio.
+  await assertValidCutOrderInput(input);
+  const validBundles = input.bundles;
 
   const defaultLocationCode = normalizeLocationCode(
     input.locationFilter || validBundles[0]?.currentLocation,
@@ -370,19 +385,16 @@ export async function createCutOrder(input: CreateCutOrderInput) {
     locationCodes.push(defaultLocationCode);
   }
 
-  const locationsMap = await ensureLocationMap(locationCodes);
+  const locationsMap = await resolveLocationMap(locationCodes);
 
-  const { data, error } = await supabase
-    .from("ordenes_corte")
-    .insert({
-      numero_orden: input.code,
-      fecha: input.date,
-      cantidad_bultos: validBundles.length,
-      activo: isActive,
-      material_id: input.materialId || null,
-    })
-    .select("id")
-    .single();
+  const repository = getRepository();
+  const { data, error } = await repository.orders.insert({
+    numero_orden: normalizeOrderCode(input.code),
+    fecha: input.date,
+    cantidad_bultos: validBundles.length,
+    estado: input.status ?? "operativa",
+    material_id: input.materialId || null,
+  });
 
   if (error) {
     throw new Error(`No se pudo crear la orden: ${error.message}`);
@@ -391,7 +403,7 @@ export async function createCutOrder(input: CreateCutOrderInput) {
   const orderId = data?.id;
 
   if (!orderId) {
-    throw new Error("La respuesta de Supabase no incluyó el id de la orden.");
+    throw new Error("La respuesta no incluyó el id de la orden.");
   }
 
   const bundlesPayload = validBundles.map((bundle, index) => {
@@ -403,331 +415,1442 @@ export async function createCutOrder(input: CreateCutOrderInput) {
       ubicacion_id: locationId,
       cantidad_laminas: bundle.sheets ?? 0,
       estado: bundleStatusFromInput(bundle.status),
-      num_bobina: bundle.num_bobina || null,
+      num_bobina: bundle.num_bobina?.trim() || null,
     };
   });
 
-  const { data: createdBundles, error: bundlesError } = await supabase
-    .from("bultos")
-    .insert(bundlesPayload)
-    .select("id, ubicacion_id");
+  const { data: createdBundles, error: bundlesError } =
+    await repository.bundles.insert(bundlesPayload);
 
   if (bundlesError) {
-    throw new Error(`No se pudieron guardar los bultos: ${bundlesError.message}`);
+    return failCutOrderCreation(
+      orderId,
+      [],
+      `No se pudieron guardar los bultos: ${bundlesError.message}`,
+    );
   }
 
-  const historyPayload =
-    createdBundles?.map((bundle) => ({
-      bulto_id: bundle.id,
-      accion: "mover" as BundleActionEnum,
-      ubicacion_destino_id: bundle.ubicacion_id,
-      numero_trabajo: null,
-      fecha_hora: new Date().toISOString(),
-    })) ?? [];
+  const createdBundleIds = createdBundles.map((bundle) => bundle.id);
+
+  if (createdBundles.length !== bundlesPayload.length) {
+    return failCutOrderCreation(
+      orderId,
+      createdBundleIds,
+      "No se guardaron todos los bultos de la orden",
+    );
+  }
 
-  if (historyPayload.length > 0) {
-    const { error: historyError } = await supabase
-      .from("historial_bultos")
-      .insert(historyPayload);
+  const historyPayload = createdBundles.map((bundle) => ({
+    bulto_id: bundle.id,
+    accion: "mover" as BundleActionEnum,
+    ubicacion_destino_id: bundle.ubicacion_id,
+    numero_trabajo: null,
+    fecha_hora: new Date().toISOString(),
+  }));
 
-    if (historyError) {
-      throw new Error(
-        `No se pudo registrar el historial inicial: ${historyError.message}`,
-      );
-    }
+  const { error: historyError } = await repository.history.insert(historyPayload);
+
+  if (historyError) {
+    return failCutOrderCreation(
+      orderId,
+      createdBundleIds,
+      `No se pudo registrar el historial inicial: ${historyError.message}`,
+    );
   }
 
   return orderId;
 }
 
-export async function splitBundle({
-  bundleId,
-  orderId,
-  sheets,
-}: {
-  bundleId: string;
+export type UpdateCutOrderInput = {
   orderId: string;
-  sheets: number;
-}) {
-  if (sheets <= 0) {
-    throw new Error("La cantidad debe ser mayor a cero.");
-  }
+  code?: string;
+  date?: string;
+  materialId?: string | null;
+  /** Bultos que llegaron después; se numeran a continuación de los existentes. */
+  newBundles?: CreateBundleInput[];
+};
 
-  const { data: bundle, error: fetchError } = await supabase
-    .from("bultos")
-    .select(
-      "id, orden_corte_id, numero_bulto, cantidad_laminas, ubicacion_id, estado, num_bobina",
-    )
-    .eq("id", bundleId)
-    .single();
+const orderAuditFieldLabels: Record<OrderAuditField, string> = {
+  numero_orden: "Número de orden",
+  fecha: "Fecha",
+  material: "Material",
+  cantidad_bultos: "Cant. de bultos",
+  estado: "Estado",
+  bulto_agregado: "Bulto agregado",
+  cancelacion: "Cancelación",
+};
 
-  if (fetchError || !bundle) {
-    throw new Error(fetchError?.message ?? "No se pudo leer el bulto seleccionado.");
-  }
+type OrderAuditChange = Pick<NewOrderAuditRow, "campo" | "valor_anterior" | "valor_nuevo">;
 
-  if (String(bundle.orden_corte_id) !== String(orderId)) {
-    throw new Error("El bulto no pertenece a la orden actual.");
-  }
+const describeMaterial = async (materialId: string | null) => {
+  if (!materialId) return "Sin material";
+  const { data } = await getRepository().materials.listActive();
+  return data?.find((material) => material.id === materialId)?.nombre ?? materialId;
+};
 
-  const currentSheets = bundle.cantidad_laminas ?? 0;
-  if (sheets >= currentSheets) {
-    throw new Error("La cantidad a dividir debe ser menor a la del bulto original.");
+/**
+ * Modifica los datos de una orden ya creada y le agrega bultos nuevos. Cada
+ * cambio queda en la auditoría de la orden; si algún paso falla se deshace lo
+ * ya aplicado.
+ */
+export async function updateCutOrder({
+  orderId,
+  code,
+  date,
+  materialId,
+  newBundles = [],
+}: UpdateCutOrderInput) {
+  const repository = getRepository();
+  const { data: order, error: orderError } = await repository.orders.findById(orderId);
+
+  if (orderError) {
+    throw new Error(`No se pudo leer la orden: ${orderError.message}`);
   }
 
-  const { base: bundleBaseNumber } = decodeBundleNumber(bundle.numero_bulto);
-  if (!bundleBaseNumber) {
-    throw new Error("El bulto no tiene un número asignado y no se puede dividir.");
+  const patch: OrderPatch = {};
+  const changes: OrderAuditChange[] = [];
+
+  if (code !== undefined) {
+    const normalizedCode = normalizeOrderCode(code);
+    // Los números anteriores a la validación se conservan mientras no se cambien.
+    if (normalizedCode !== normalizeOrderCode(order.numero_orden)) {
+      const codeError = validateOrderCode(normalizedCode);
+      if (codeError) {
+        throw new Error(codeError);
+      }
+      const duplicateError = await checkOrderCodeAvailable(normalizedCode, orderId);
+      if (duplicateError) {
+        throw new Error(duplicateError);
+      }
+      patch.numero_orden = normalizedCode;
+      changes.push({
+        campo: "numero_orden",
+        valor_anterior: order.numero_orden,
+        valor_nuevo: normalizedCode,
+      });
+    }
   }
 
-  const { data: orderBundles, error: siblingsError } = await supabase
-    .from("bultos")
-    .select("id, numero_bulto")
-    .eq("orden_corte_id", orderId);
+  if (date !== undefined) {
+    if (!date) {
+      throw new Error("La fecha no puede quedar vacía.");
+    }
+    if (date !== order.fecha) {
+      const dateError = validateOrderDate(date);
+      if (dateError) {
+        throw new Error(dateError);
+      }
+      patch.fecha = date;
+      changes.push({ campo: "fecha", valor_anterior: order.fecha, valor_nuevo: date });
+    }
+  }
 
-  if (siblingsError) {
-    throw new Error(
-      `No se pudieron leer los bultos de la orden: ${siblingsError.message}`,
-    );
+  if (materialId !== undefined) {
+    const nextMaterialId = materialId || null;
+    if (nextMaterialId !== order.material_id) {
+      patch.material_id = nextMaterialId;
+      changes.push({
+        campo: "material",
+        valor_anterior: await describeMaterial(order.material_id),
+        valor_nuevo: await describeMaterial(nextMaterialId),
+      });
+    }
   }
 
-  const relatedBundles = (orderBundles ?? []).filter((item) => {
-    const info = decodeBundleNumber(item.numero_bulto);
-    return info.base === bundleBaseNumber;
+  newBundles.forEach((bundle, index) => {
+    const bundleError = validateBundleInput(bundle);
+    if (bundleError) {
+      throw new Error(`Bulto nuevo ${index + 1}: ${bundleError}`);
+    }
   });
 
-  const usedVariants = relatedBundles
-    .map((item) => decodeBundleNumber(item.numero_bulto).variant)
-    .filter((variant): variant is number => variant !== null);
-  const highestVariant = usedVariants.length ? Math.max(...usedVariants) : 1;
-  const nextVariant = highestVariant + 1;
-  const shouldNormalizeNumber =
-    bundle.numero_bulto === null || bundle.numero_bulto < BUNDLE_SPLIT_NUMBER_FACTOR;
-
-  const remainingSheets = currentSheets - sheets;
-  const { error: updateError } = await supabase
-    .from("bultos")
-    .update({
-      cantidad_laminas: remainingSheets,
-    })
-    .eq("id", bundleId);
+  const { data: orderBundles, error: bundlesFetchError } =
+    await repository.bundles.listByOrder(orderId);
 
-  if (updateError) {
-    throw new Error(`No se pudo actualizar el bulto original: ${updateError.message}`);
+  if (bundlesFetchError) {
+    throw new Error(
+      `No se pudieron leer los bultos de la orden: ${bundlesFetchError.message}`,
+    );
   }
 
-  if (shouldNormalizeNumber) {
-    const encodedParentNumber = encodeBundleNumber(bundleBaseNumber, 1);
-    const { error: numberUpdateError } = await supabase
-      .from("bultos")
-      .update({ numero_bulto: encodedParentNumber })
-      .eq("id", bundleId);
+  const locationsMap = await resolveLocationMap(
+    newBundles
+      .map((bundle) => normalizeLocationCode(bundle.currentLocation))
+      .filter((code): code is string => Boolean(code)),
+  );
 
-    if (numberUpdateError) {
-      throw new Error(
-        `No se pudo ajustar el número del bulto original: ${numberUpdateError.message}`,
-      );
-    }
-  }
+  // Las divisiones comparten el número de su bulto original, así que basta
+  // con seguir desde el mayor.
+  const highestNumber = Math.max(
+    0,
+    ...orderBundles.map((bundle) => bundle.numero_bulto ?? 0),
+  );
+  const bundlesPayload = newBundles.map((bundle, index) => {
+    const locationCode = normalizeLocationCode(bundle.currentLocation);
+    return {
+      orden_corte_id: orderId,
+      numero_bulto: highestNumber + index + 1,
+      ubicacion_id: locationCode ? locationsMap[locationCode] ?? null : null,
+      cantidad_laminas: bundle.sheets ?? 0,
+      estado: bundleStatusFromInput(bundle.status),
+      num_bobina: bundle.num_bobina || null,
+    };
+  });
 
-  const encodedSplitNumber = encodeBundleNumber(bundleBaseNumber, nextVariant);
+  if (bundlesPayload.length > 0) {
+    const originalCount = orderBundles.filter((bundle) => !bundle.bulto_padre_id).length;
+    const nextCount = originalCount + bundlesPayload.length;
+    patch.cantidad_bultos = nextCount;
+    changes.push({
+      campo: "cantidad_bultos",
+      valor_anterior: String(order.cantidad_bultos ?? originalCount),
+      valor_nuevo: String(nextCount),
+    });
 
-  const { data: inserted, error: insertError } = await supabase
-    .from("bultos")
-    .insert({
-      orden_corte_id: orderId,
-      numero_bulto: encodedSplitNumber,
-      cantidad_laminas: sheets,
-      ubicacion_id: bundle.ubicacion_id,
-      estado: bundle.estado ?? DEFAULT_BUNDLE_STATUS,
-      num_bobina: bundle.num_bobina,
-    })
-    .select("id");
+    // Una orden completada vuelve a estar operativa si recibe bultos disponibles.
+    if (order.estado === "completada") {
+      patch.estado = "operativa";
+      changes.push({
+        campo: "estado",
+        valor_anterior: orderStatusLabels.completada,
+        valor_nuevo: orderStatusLabels.operativa,
+      });
+    }
 
-  if (insertError) {
-    throw new Error(`No se pudo crear el nuevo bulto: ${insertError.message}`);
+    bundlesPayload.forEach((bundle, index) => {
+      changes.push({
+        campo: "bulto_agregado",
+        valor_anterior: null,
+        valor_nuevo: `Bulto #${bundle.numero_bulto} • ${bundle.cantidad_laminas} lám. • ${
+          normalizeLocationCode(newBundles[index].currentLocation) ?? "Sin ubicación"
+        }`,
+      });
+    });
   }
 
-  const newBundleId = inserted?.[0]?.id;
-  if (!newBundleId) {
-    throw new Error("La respuesta de Supabase no incluyó el id del bulto dividido.");
+  if (changes.length === 0) {
+    throw new Error("No hay cambios para guardar.");
   }
 
-  const splitTimestamp = new Date().toISOString();
-  const historyPayload = [
-    {
-      bulto_id: bundle.id,
-      accion: "dividir" as BundleActionEnum,
-      ubicacion_destino_id: bundle.ubicacion_id,
-      numero_trabajo: null,
-      fecha_hora: splitTimestamp,
-    },
-    {
-      bulto_id: newBundleId,
-      accion: "dividir" as BundleActionEnum,
-      ubicacion_destino_id: bundle.ubicacion_id,
-      numero_trabajo: null,
-      fecha_hora: splitTimestamp,
-    },
-  ];
-
-  const { error: historyError } = await supabase
-    .from("historial_bultos")
-    .insert(historyPayload);
+  const previousValues = Object.fromEntries(
+    Object.keys(patch).map((key) => [key, order[key as keyof OrderPatch]]),
+  ) as OrderPatch;
 
-  if (historyError) {
-    throw new Error(
-      `No se pudo registrar el historial de la división: ${historyError.message}`,
-    );
+  if (Object.keys(patch).length > 0) {
+    const { error: updateError } = await repository.orders.update(orderId, patch);
+    if (updateError) {
+      throw new Error(`No se pudo actualizar la orden: ${updateError.message}`);
+    }
   }
-}
 
-export type BundleAction = BundleActionEnum;
+  let createdBundles: BundleRow[] = [];
+  let auditIds: string[] = [];
 
-export type ApplyBundleActionInput = {
-  bundleIds: string[];
-  action: BundleActionEnum;
-  destinationCode?: string | null;
-  orderNumber?: string | null;
-};
+  const rollback = async (reason: string): Promise<never> => {
+    if (auditIds.length > 0) {
+      const { error } = await repository.orderAudit.remove(auditIds);
+      if (error) {
+        console.error(`No se pudo eliminar la auditoría de ${orderId}:`, error.message);
+      }
+    }
+    if (createdBundles.length > 0) {
+      const { error } = await repository.bundles.remove(
+        createdBundles.map((bundle) => bundle.id),
+      );
+      if (error) {
+        console.error(`No se pudieron eliminar los bultos nuevos de ${orderId}:`, error.message);
+      }
+    }
+    if (Object.keys(previousValues).length > 0) {
+      const { error } = await repository.orders.update(orderId, previousValues);
+      if (error) {
+        console.error(`No se pudo restaurar la orden ${orderId}:`, error.message);
+      }
+    }
+    throw new Error(`${reason}. Los cambios no se guardaron.`);
+  };
 
-async function checkAndUpdateOrderStatus(bundleIds: string[]) {
-  // Obtener las órdenes únicas de los bultos afectados
-  const { data: bundlesWithOrder, error: fetchError } = await supabase
-    .from("bultos")
-    .select("orden_corte_id")
-    .in("id", bundleIds);
+  if (bundlesPayload.length > 0) {
+    const { data: inserted, error: insertError } =
+      await repository.bundles.insert(bundlesPayload);
 
-  if (fetchError || !bundlesWithOrder) {
-    // No lanzar error para no interrumpir el flujo principal
-    console.error("No se pudo verificar las órdenes:", fetchError?.message);
-    return;
+    if (insertError) {
+      return rollback(`No se pudieron agregar los bultos: ${insertError.message}`);
+    }
+
+    createdBundles = inserted;
+    if (inserted.length !== bundlesPayload.length) {
+      return rollback("No se agregaron todos los bultos");
+    }
   }
 
-  const uniqueOrderIds = Array.from(
-    new Set(bundlesWithOrder.map((b) => b.orden_corte_id))
+  const editedAt = new Date().toISOString();
+  const batchId = createId();
+  const { data: auditRows, error: auditError } = await repository.orderAudit.insert(
+    changes.map((change) => ({
+      ...change,
+      orden_corte_id: orderId,
+      fecha_hora: editedAt,
+      lote_id: batchId,
+    })),
   );
 
-  // Para cada orden, verificar si todos los bultos están utilizados
-  for (const orderId of uniqueOrderIds) {
-    const { data: orderBundles, error: bundlesError } = await supabase
-      .from("bultos")
-      .select("id, estado")
-      .eq("orden_corte_id", orderId);
-
-    if (bundlesError || !orderBundles || orderBundles.length === 0) {
-      continue;
-    }
+  if (auditError) {
+    return rollback(`No se pudo registrar la auditoría: ${auditError.message}`);
+  }
 
-    // Verificar si todos los bultos están utilizados
-    const allUsed = orderBundles.every((bundle) => bundle.estado === "usado");
-    
-    // Verificar si hay al menos un bulto disponible o asignado
-    const hasAvailableOrAssigned = orderBundles.some(
-      (bundle) => bundle.estado === "disponible" || bundle.estado === "asignado"
+  auditIds = auditRows.map((row) => row.id);
+
+  if (createdBundles.length > 0) {
+    const { error: historyError } = await repository.history.insert(
+      createdBundles.map((bundle) => ({
+        bulto_id: bundle.id,
+        accion: "mover" as BundleActionEnum,
+        ubicacion_destino_id: bundle.ubicacion_id,
+        numero_trabajo: null,
+        fecha_hora: editedAt,
+      })),
     );
 
-    // Si todos están utilizados (y no hay ninguno disponible o asignado), marcar orden como inactiva
-    if (allUsed && !hasAvailableOrAssigned) {
-      const { error: updateOrderError } = await supabase
-        .from("ordenes_corte")
-        .update({ activo: false })
-        .eq("id", orderId);
-
-      if (updateOrderError) {
-        console.error(
-          `No se pudo actualizar el estado de la orden ${orderId}:`,
-          updateOrderError.message
-        );
-      }
+    if (historyError) {
+      return rollback(`No se pudo registrar el historial inicial: ${historyError.message}`);
     }
   }
 }
 
-export async function applyBundleAction({
-  bundleIds,
-  action,
-  destinationCode,
-  orderNumber,
-}: ApplyBundleActionInput) {
-  if (!bundleIds.length) {
-    throw new Error("Selecciona al menos un bulto.");
+export async function fetchOrderAudit(orderId: string): Promise<OrderAuditEntry[]> {
+  const { data, error } = await getRepository().orderAudit.listByOrder(orderId);
+
+  if (error) {
+    throw new Error(`No se pudo cargar la auditoría de la orden: ${error.message}`);
   }
 
-  if (action === "utilizar") {
-    const { data: bundlesInfo, error: bundlesFetchError } = await supabase
-      .from("bultos")
-      .select("id, estado")
-      .in("id", bundleIds);
+  return data.map((entry) => ({
+    id: entry.id,
+    field: orderAuditFieldLabels[entry.campo] ?? entry.campo,
+    previous: entry.valor_anterior ?? "-",
+    next: entry.valor_nuevo ?? "-",
+    date: formatDateTime(entry.fecha_hora),
+  }));
+}
 
-    if (bundlesFetchError) {
-      throw new Error(
-        `No se pudieron validar los bultos seleccionados: ${bundlesFetchError.message}`,
-      );
-    }
+/**
+ * Cancela una orden creada por error. La orden se conserva con su motivo,
+ * pero deja de listarse por defecto. No se permite si algún bulto ya está
+ * asignado o utilizado.
+ */
+export async function cancelCutOrder({ orderId, reason }: { orderId: string; reason: string }) {
+  const normalizedReason = reason.trim();
+  if (!normalizedReason) {
+    throw new Error("Indica el motivo de la cancelación.");
+  }
 
-    const invalid = (bundlesInfo ?? []).filter((bundle) => bundle.estado !== "asignado");
-    if (invalid.length > 0) {
-      throw new Error(
-        "Solo se pueden marcar como utilizados los bultos que estén asignados.",
-      );
-    }
+  const repository = getRepository();
+  const { data: order, error: orderError } = await repository.orders.findById(orderId);
+
+  if (orderError) {
+    throw new Error(`No se pudo leer la orden: ${orderError.message}`);
   }
 
-  let locationId: string | null = null;
-  if (action === "mover") {
-    const normalizedDestination = normalizeLocationCode(destinationCode ?? undefined);
-    if (!normalizedDestination) {
-      throw new Error("Selecciona una ubicación de destino válida.");
-    }
-    const locationMap = await ensureLocationMap([normalizedDestination]);
-    locationId = locationMap[normalizedDestination] ?? null;
-    if (!locationId) {
-      throw new Error("No se pudo resolver la ubicación seleccionada.");
-    }
+  if (order.estado === "cancelada") {
+    throw new Error("La orden ya está cancelada.");
   }
 
-  const normalizedOrder = orderNumber?.trim() ?? "";
-  const historyWorkOrder = normalizedOrder || null;
-  if (action === "asignar" && !historyWorkOrder) {
-    throw new Error("Ingresa un número de orden válido.");
+  if (!canChangeOrderStatus(order.estado, "cancelada")) {
+    throw new Error(
+      `No se puede cancelar una orden en estado ${orderStatusLabels[order.estado]}.`,
+    );
   }
 
-  const nextStatus = bundleStatusByAction[action];
-  const updatePayload: Record<string, unknown> = {};
-  if (locationId) {
-    updatePayload.ubicacion_id = locationId;
+  const { data: orderBundles, error: bundlesError } =
+    await repository.bundles.listByOrder(orderId);
+
+  if (bundlesError) {
+    throw new Error(`No se pudieron leer los bultos de la orden: ${bundlesError.message}`);
   }
-  if (nextStatus) {
-    updatePayload.estado = nextStatus;
+
+  if (orderBundles.some((bundle) => bundle.estado === "asignado" || bundle.estado === "usado")) {
+    throw new Error(
+      "No se puede cancelar la orden: tiene bultos asignados o utilizados.",
+    );
   }
 
-  if (Object.keys(updatePayload).length > 0) {
-    const { error: updateError } = await supabase
-      .from("bultos")
-      .update(updatePayload)
-      .in("id", bundleIds);
+  const { error: updateError } = await repository.orders.update(orderId, {
+    cancelada_en: new Date().toISOString(),
+    motivo_cancelacion: normalizedReason,
+    estado: "cancelada",
+  });
 
-    if (updateError) {
-      throw new Error(`No se pudieron actualizar los bultos: ${updateError.message}`);
-    }
+  if (updateError) {
+    throw new Error(`No se pudo cancelar la orden: ${updateError.message}`);
   }
 
+  const { error: auditError } = await repository.orderAudit.insert([
+    {
+      orden_corte_id: orderId,
+      campo: "cancelacion",
+      valor_anterior: orderStatusLabels[order.estado],
+      valor_nuevo: normalizedReason,
+      fecha_hora: new Date().toISOString(),
+      lote_id: null,
+    },
+  ]);
+
+  if (auditError) {
+    const { error: restoreError } = await repository.orders.update(orderId, {
+      cancelada_en: null,
+      motivo_cancelacion: null,
+      estado: order.estado,
+    });
+    if (restoreError) {
+      console.error(`No se pudo restaurar la orden ${orderId}:`, restoreError.message);
+    }
+    throw new Error(
+      `No se pudo registrar la cancelación: ${auditError.message}. La orden no se canceló.`,
+    );
+  }
+}
+
+/** Registra en la auditoría un cambio de estado de la orden. */
+const recordOrderStatusChange = (
+  orderId: string,
+  from: OrderStatusEnum,
+  to: OrderStatusEnum,
+) =>
+  getRepository().orderAudit.insert([
+    {
+      orden_corte_id: orderId,
+      campo: "estado",
+      valor_anterior: orderStatusLabels[from],
+      valor_nuevo: orderStatusLabels[to],
+      fecha_hora: new Date().toISOString(),
+      lote_id: null,
+    },
+  ]);
+
+/**
+ * Cambio de estado hecho por el operador: activar un borrador, pausar o
+ * reanudar. Cancelar tiene su propio flujo en `cancelCutOrder`.
+ */
+export async function changeCutOrderStatus({
+  orderId,
+  status,
+}: {
+  orderId: string;
+  status: Extract<OrderStatusEnum, "operativa" | "pausada">;
+}) {
+  const repository = getRepository();
+  const { data: order, error: orderError } = await repository.orders.findById(orderId);
+
+  if (orderError) {
+    throw new Error(`No se pudo leer la orden: ${orderError.message}`);
+  }
+
+  // Una orden completada solo se reabre cuando alguno de sus bultos vuelve a stock.
+  if (order.estado === "completada" || !canChangeOrderStatus(order.estado, status)) {
+    throw new Error(
+      `No se puede pasar la orden de ${orderStatusLabels[order.estado]} a ${orderStatusLabels[status]}.`,
+    );
+  }
+
+  const { error: updateError } = await repository.orders.update(orderId, { estado: status });
+
+  if (updateError) {
+    throw new Error(`No se pudo cambiar el estado de la orden: ${updateError.message}`);
+  }
+
+  const { error: auditError } = await recordOrderStatusChange(orderId, order.estado, status);
+
+  if (auditError) {
+    const { error: restoreError } = await repository.orders.update(orderId, {
+      estado: order.estado,
+    });
+    if (restoreError) {
+      console.error(`No se pudo restaurar la orden ${orderId}:`, restoreError.message);
+    }
+    throw new Error(
+      `No se pudo registrar el cambio de estado: ${auditError.message}. La orden no cambió.`,
+    );
+  }
+}
+
+/** Falla si alguna de las órdenes está en un estado que no admite movimientos. */
+const ensureOrdersAcceptBundleChanges = async (orderIds: string[]) => {
+  const repository = getRepository();
+  for (const orderId of Array.from(new Set(orderIds))) {
+    const { data: order, error } = await repository.orders.findById(orderId);
+    if (error) {
+      throw new Error(`No se pudo leer la orden: ${error.message}`);
+    }
+    if (!orderAcceptsBundleChanges(order.estado)) {
+      throw new Error(
+        `La orden ${order.numero_orden} está en estado ${orderStatusLabels[order.estado]} y no admite cambios en sus bultos.`,
+      );
+    }
+  }
+};
+
+const STALE_BUNDLE_MESSAGE =
+  "El bulto cambió mientras lo editabas (otro usuario lo modificó). Recarga la orden e inténtalo de nuevo.";
+
+export type SplitBundlePart = {
+  sheets: number;
+  /** Ubicación del nuevo bulto; si se omite queda en la del original. */
+  destinationCode?: string | null;
+};
+
+/**
+ * Divide un bulto en una o más partes nuevas en una sola operación. El bulto
+ * original conserva las láminas restantes y todos los cambios se registran en
+ * un mismo lote de historial.
+ */
+export async function splitBundle({
+  bundleId,
+  orderId,
+  parts,
+  expectedVersion,
+}: {
+  bundleId: string;
+  orderId: string;
+  parts: SplitBundlePart[];
+  /** Versión del bulto que vio el operador; si cambió, la división se rechaza. */
+  expectedVersion?: number;
+}) {
+  if (parts.length === 0) {
+    throw new Error("Indica al menos una parte para dividir.");
+  }
+
+  if (parts.some((part) => !Number.isInteger(part.sheets) || part.sheets <= 0)) {
+    throw new Error("La cantidad de cada parte debe ser un número entero mayor a cero.");
+  }
+
+  const repository = getRepository();
+  const { data: bundle, error: fetchError } = await repository.bundles.findById(bundleId);
+
+  if (fetchError || !bundle) {
+    throw new Error(fetchError?.message ?? "No se pudo leer el bulto seleccionado.");
+  }
+
+  if (String(bundle.orden_corte_id) !== String(orderId)) {
+    throw new Error("El bulto no pertenece a la orden actual.");
+  }
+
+  if (bundle.estado === "unido" || bundle.estado === "descartado") {
+    throw new Error("Un bulto unido o descartado no se puede dividir.");
+  }
+
+  await ensureOrdersAcceptBundleChanges([orderId]);
+
+  if (expectedVersion !== undefined && bundle.version !== expectedVersion) {
+    throw new Error(STALE_BUNDLE_MESSAGE);
+  }
+
+  const currentSheets = bundle.cantidad_laminas ?? 0;
+  const splitSheets = parts.reduce((acc, part) => acc + part.sheets, 0);
+  if (splitSheets >= currentSheets) {
+    throw new Error(
+      "La suma de las partes debe ser menor a la cantidad del bulto original.",
+    );
+  }
+
+  if (bundle.numero_bulto === null) {
+    throw new Error("El bulto no tiene un número asignado y no se puede dividir.");
+  }
+
+  const destinationCodes = parts
+    .map((part) => normalizeLocationCode(part.destinationCode ?? undefined))
+    .filter((code): code is string => Boolean(code));
+  const locationsMap = await resolveLocationMap(destinationCodes);
+
+  const { data: orderBundles, error: siblingsError } =
+    await repository.bundles.listByOrder(orderId);
+
+  if (siblingsError) {
+    throw new Error(
+      `No se pudieron leer los bultos de la orden: ${siblingsError.message}`,
+    );
+  }
+
+  const childNumbers = orderBundles
+    .filter((item) => item.bulto_padre_id === bundle.id)
+    .map((item) => item.numero_hijo ?? 0);
+  const highestChildNumber = childNumbers.length ? Math.max(...childNumbers) : 0;
+
+  // El bulto original se actualiza en un solo paso y solo si nadie lo tocó
+  // desde que se leyó; así dos divisiones simultáneas no pisan sus cantidades.
+  const { data: updatedParent, error: updateError } =
+    await repository.bundles.updateIfVersion(bundleId, bundle.version, {
+      cantidad_laminas: currentSheets - splitSheets,
+    });
+
+  if (updateError) {
+    throw new Error(`No se pudo actualizar el bulto original: ${updateError.message}`);
+  }
+
+  if (!updatedParent) {
+    throw new Error(STALE_BUNDLE_MESSAGE);
+  }
+
+  const restoreParent = async () => {
+    const { data: restored, error: restoreError } =
+      await repository.bundles.updateIfVersion(bundleId, updatedParent.version, {
+        cantidad_laminas: bundle.cantidad_laminas,
+      });
+    if (restoreError || !restored) {
+      console.error(
+        `No se pudo restaurar el bulto ${bundleId} tras una división fallida:`,
+        restoreError?.message ?? "el bulto fue modificado",
+      );
+    }
+  };
+
+  const childrenPayload = parts.map((part, index) => {
+    const destinationCode = normalizeLocationCode(part.destinationCode ?? undefined);
+    return {
+      orden_corte_id: orderId,
+      numero_bulto: bundle.numero_bulto,
+      bulto_padre_id: bundle.id,
+      numero_hijo: highestChildNumber + index + 1,
+      cantidad_laminas: part.sheets,
+      ubicacion_id: destinationCode
+        ? locationsMap[destinationCode] ?? bundle.ubicacion_id
+        : bundle.ubicacion_id,
+      estado: bundle.estado ?? DEFAULT_BUNDLE_STATUS,
+      num_bobina: bundle.num_bobina,
+    };
+  });
+
+  const { data: inserted, error: insertError } =
+    await repository.bundles.insert(childrenPayload);
+
+  if (insertError || inserted.length !== childrenPayload.length) {
+    if (inserted?.length) {
+      await repository.bundles.remove(inserted.map((child) => child.id));
+    }
+    await restoreParent();
+    throw new Error(
+      insertError
+        ? `No se pudieron crear los nuevos bultos: ${insertError.message}. La división no se aplicó.`
+        : "No se crearon todos los bultos de la división. La división no se aplicó.",
+    );
+  }
+
+  const batchId = createId();
+  const splitTimestamp = new Date().toISOString();
+  const historyPayload = [
+    {
+      bulto_id: bundle.id,
+      accion: "dividir" as BundleActionEnum,
+      ubicacion_destino_id: bundle.ubicacion_id,
+      numero_trabajo: null,
+      fecha_hora: splitTimestamp,
+      cantidad_laminas: splitSheets,
+      lote_id: batchId,
+    },
+    ...inserted.map((child) => ({
+      bulto_id: child.id,
+      accion: "dividir" as BundleActionEnum,
+      ubicacion_destino_id: child.ubicacion_id,
+      numero_trabajo: null,
+      fecha_hora: splitTimestamp,
+      cantidad_laminas: child.cantidad_laminas,
+      lote_id: batchId,
+    })),
+  ];
+
+  const { error: historyError } = await repository.history.insert(historyPayload);
+
+  if (historyError) {
+    const { error: removeError } = await repository.bundles.remove(
+      inserted.map((child) => child.id),
+    );
+    if (removeError) {
+      // Sin eliminar los bultos nuevos no se puede devolver las láminas al original.
+      throw new Error(
+        `No se pudo registrar el historial de la división: ${historyError.message}. El bulto se dividió sin historial; revísalo antes de continuar.`,
+      );
+    }
+    await restoreParent();
+    throw new Error(
+      `No se pudo registrar el historial de la división: ${historyError.message}. La división no se aplicó.`,
+    );
+  }
+
+  return inserted.map((child) => child.id);
+}
+
+export type BundleAction = BundleActionEnum;
+
+export type ApplyBundleActionInput = {
+  bundleIds: string[];
+  action: BundleActionEnum;
+  destinationCode?: string | null;
+  orderNumber?: string | null;
+  /**
+   * Solo para "utilizar" sobre un único bulto: láminas consumidas. Si es menor
+   * a la cantidad del bulto, el resto queda disponible en el mismo bulto.
+   */
+  sheets?: number | null;
+};
+
+/** Datos necesarios para deshacer una acción aplicada con `applyBundleAction`. */
+export type BundleActionResult = {
+  batchId: string;
+};
+
+/**
+ * Completa las órdenes operativas cuyos bultos están todos utilizados y
+ * reabre las completadas que vuelven a tener bultos en stock. Los errores solo
+ * se registran para no interrumpir la acción que originó el cambio.
+ */
+async function syncOrderStatus(bundleIds: string[]) {
+  const repository = getRepository();
+  const { data: bundlesWithOrder, error: fetchError } =
+    await repository.bundles.listByIds(bundleIds);
+
+  if (fetchError || !bundlesWithOrder) {
+    console.error("No se pudo verificar las órdenes:", fetchError?.message);
+    return;
+  }
+
+  const uniqueOrderIds = Array.from(
+    new Set(bundlesWithOrder.map((b) => b.orden_corte_id))
+  );
+
+  for (const orderId of uniqueOrderIds) {
+    const [{ data: order }, { data: orderBundles, error: bundlesError }] = await Promise.all([
+      repository.orders.findById(orderId),
+      repository.bundles.listByOrder(orderId),
+    ]);
+
+    if (!order || bundlesError || !orderBundles || orderBundles.length === 0) {
+      continue;
+    }
+
+    // Los bultos unidos ya no cuentan como stock de la orden.
+    const hasStock = orderBundles.some(
+      (bundle) => bundle.estado === "disponible" || bundle.estado === "asignado",
+    );
+
+    const nextStatus: OrderStatusEnum | null =
+      order.estado === "operativa" && !hasStock
+        ? "completada"
+        : order.estado === "completada" && hasStock
+          ? "operativa"
+          : null;
+
+    if (!nextStatus) continue;
+
+    const { error: updateOrderError } = await repository.orders.update(orderId, {
+      estado: nextStatus,
+    });
+
+    if (updateOrderError) {
+      console.error(
+        `No se pudo actualizar el estado de la orden ${orderId}:`,
+        updateOrderError.message
+      );
+      continue;
+    }
+
+    const { error: auditError } = await recordOrderStatusChange(
+      orderId,
+      order.estado,
+      nextStatus,
+    );
+    if (auditError) {
+      console.error(
+        `No se pudo registrar el cambio de estado de la orden ${orderId}:`,
+        auditError.message,
+      );
+    }
+  }
+}
+
+export async function applyBundleAction({
+  bundleIds,
+  action,
+  destinationCode,
+  orderNumber,
+  sheets,
+}: ApplyBundleActionInput): Promise<BundleActionResult> {
+  if (!bundleIds.length) {
+    throw new Error("Selecciona al menos un bulto.");
+  }
+
+  const repository = getRepository();
+
+  // El estado previo se guarda en el historial para poder deshacer la acción.
+  const { data: bundlesInfo, error: bundlesFetchError } =
+    await repository.bundles.listByIds(bundleIds);
+
+  if (bundlesFetchError) {
+    throw new Error(
+      `No se pudieron validar los bultos seleccionados: ${bundlesFetchError.message}`,
+    );
+  }
+
+  await ensureOrdersAcceptBundleChanges(bundlesInfo.map((bundle) => bundle.orden_corte_id));
+
+  // Un bulto unido, utilizado o descartado ya no es stock: moverlo o asignarlo
+  // lo volvería a contar.
+  if (action === "mover" || action === "asignar" || action === "desasignar") {
+    const closed = bundlesInfo.find(
+      (bundle) => bundle.estado !== "disponible" && bundle.estado !== "asignado",
+    );
+    if (closed) {
+      const status = closed.estado ? bundleStatusLabels[closed.estado].availability : "Sin estado";
+      throw new Error(
+        `Solo se pueden ${bundleActionLabels[action].toLowerCase()} bultos disponibles o asignados (hay uno en estado ${status}).`,
+      );
+    }
+  }
+
+  if (action === "utilizar") {
+    const invalid = bundlesInfo.filter((bundle) => bundle.estado !== "asignado");
+    if (invalid.length > 0) {
+      throw new Error(
+        "Solo se pueden marcar como utilizados los bultos que estén asignados.",
+      );
+    }
+  }
+
+  let consumedSheets: number | null = null;
+  if (sheets !== undefined && sheets !== null) {
+    if (action !== "utilizar" || bundleIds.length !== 1) {
+      throw new Error("La cantidad de láminas solo aplica al utilizar un único bulto.");
+    }
+    const available = bundlesInfo[0]?.cantidad_laminas ?? 0;
+    if (!Number.isInteger(sheets) || sheets <= 0) {
+      throw new Error("La cantidad a utilizar debe ser un número entero mayor a cero.");
+    }
+    if (sheets > available) {
+      throw new Error(
+        `El bulto solo tiene ${available.toLocaleString("es-ES")} láminas disponibles.`,
+      );
+    }
+    consumedSheets = sheets;
+  }
+  const isPartialUse =
+    consumedSheets !== null && consumedSheets < (bundlesInfo[0]?.cantidad_laminas ?? 0);
+
+  // Al desasignar o utilizar se registra la orden de trabajo de cada bulto.
+  const assignedWorkOrders = new Map<string, string | null>();
+  if (action === "desasignar" || action === "utilizar") {
+    if (action === "desasignar") {
+      const invalid = bundlesInfo.filter((bundle) => bundle.estado !== "asignado");
+      if (invalid.length > 0) {
+        throw new Error("Solo se pueden desasignar los bultos que estén asignados.");
+      }
+    }
+
+    const { data: assignmentHistory, error: assignmentError } =
+      await repository.history.listByBundles(bundleIds);
+
+    if (assignmentError) {
+      throw new Error(
+        `No se pudo leer la asignación de los bultos: ${assignmentError.message}`,
+      );
+    }
+
+    assignmentHistory
+      .filter((entry) => entry.accion === "asignar" && !entry.revertido)
+      .forEach((entry) => assignedWorkOrders.set(entry.bulto_id, entry.numero_trabajo));
+  }
+
+  let locationId: string | null = null;
+  if (action === "mover") {
+    const normalizedDestination = normalizeLocationCode(destinationCode ?? undefined);
+    if (!normalizedDestination) {
+      throw new Error("Selecciona una ubicación de destino válida.");
+    }
+    const locationMap = await resolveLocationMap([normalizedDestination]);
+    locationId = locationMap[normalizedDestination] ?? null;
+    if (!locationId) {
+      throw new Error("No se pudo resolver la ubicación seleccionada.");
+    }
+  }
+
+  const normalizedOrder = orderNumber?.trim() ?? "";
+  const historyWorkOrder = normalizedOrder || null;
+  if (action === "asignar" && !historyWorkOrder) {
+    throw new Error("Ingresa un número de orden válido.");
+  }
+
+  const nextStatus = bundleStatusByAction[action];
+  const updatePayload: BundlePatch = {};
+  if (locationId) {
+    updatePayload.ubicacion_id = locationId;
+  }
+  if (nextStatus) {
+    updatePayload.estado = nextStatus;
+  }
+  if (isPartialUse && consumedSheets !== null) {
+    // Se descuentan las láminas consumidas y el resto vuelve a estar disponible.
+    updatePayload.cantidad_laminas = (bundlesInfo[0].cantidad_laminas ?? 0) - consumedSheets;
+    updatePayload.estado = "disponible";
+  }
+
+  if (Object.keys(updatePayload).length > 0) {
+    const { error: updateError } = await repository.bundles.update(
+      bundleIds,
+      updatePayload,
+    );
+
+    if (updateError) {
+      throw new Error(`No se pudieron actualizar los bultos: ${updateError.message}`);
+    }
+  }
+
+  const batchId = createId();
+  const previousById = new Map(bundlesInfo.map((bundle) => [bundle.id, bundle]));
   const historyPayload = bundleIds.map((bundleId) => ({
     bulto_id: bundleId,
     accion: action,
     ubicacion_destino_id: locationId,
-    numero_trabajo: action === "asignar" ? historyWorkOrder : null,
+    numero_trabajo:
+      action === "asignar"
+        ? historyWorkOrder
+        : assignedWorkOrders.get(bundleId) ?? null,
     fecha_hora: new Date().toISOString(),
+    cantidad_laminas:
+      action === "utilizar"
+        ? consumedSheets ?? previousById.get(bundleId)?.cantidad_laminas ?? null
+        : null,
+    lote_id: batchId,
+    estado_anterior: previousById.get(bundleId)?.estado ?? null,
+    ubicacion_anterior_id: previousById.get(bundleId)?.ubicacion_id ?? null,
   }));
 
-  const { error: historyError } = await supabase
-    .from("historial_bultos")
-    .insert(historyPayload);
+  const { error: historyError } = await repository.history.insert(historyPayload);
 
   if (historyError) {
     throw new Error(`No se pudo registrar el historial: ${historyError.message}`);
   }
 
-  // Verificar y actualizar el estado de la orden si todos los bultos están utilizados
-  await checkAndUpdateOrderStatus(bundleIds);
+  await syncOrderStatus(bundleIds);
+
+  return { batchId };
+}
+
+/**
+ * Revierte una acción aplicada con `applyBundleAction`: devuelve cada bulto a
+ * su ubicación y estado anteriores, marca el historial como revertido (sin
+ * borrarlo) y reabre las órdenes que vuelven a tener bultos en stock.
+ */
+export async function undoBundleAction({ batchId }: BundleActionResult) {
+  const repository = getRepository();
+  const { data: batchEntries, error: batchError } =
+    await repository.history.listByBatch(batchId);
+
+  if (batchError) {
+    throw new Error(`No se pudo leer la acción a deshacer: ${batchError.message}`);
+  }
+
+  if (batchEntries.length === 0) {
+    throw new Error("No se encontró la acción a deshacer.");
+  }
+
+  if (batchEntries.some((entry) => entry.revertido)) {
+    throw new Error("Esta acción ya fue deshecha.");
+  }
+
+  const bundleIds = batchEntries.map((entry) => entry.bulto_id);
+  const { data: bundlesHistory, error: historyError } =
+    await repository.history.listByBundles(bundleIds);
+
+  if (historyError) {
+    throw new Error(`No se pudo leer el historial de los bultos: ${historyError.message}`);
+  }
+
+  const batchEntryIds = new Set(batchEntries.map((entry) => entry.id));
+  const hasLaterChanges = bundleIds.some((bundleId) => {
+    const latest = bundlesHistory
+      .filter((entry) => entry.bulto_id === bundleId && !entry.revertido)
+      .at(-1);
+    return latest ? !batchEntryIds.has(latest.id) : false;
+  });
+
+  if (hasLaterChanges) {
+    throw new Error(
+      "No se puede deshacer: alguno de los bultos tuvo cambios posteriores.",
+    );
+  }
+
+  const { data: currentBundles, error: currentError } =
+    await repository.bundles.listByIds(bundleIds);
+
+  if (currentError) {
+    throw new Error(`No se pudieron leer los bultos: ${currentError.message}`);
+  }
+
+  const currentById = new Map(currentBundles.map((bundle) => [bundle.id, bundle]));
+
+  for (const entry of batchEntries) {
+    const restorePatch: BundlePatch = {};
+    if (entry.estado_anterior) {
+      restorePatch.estado = entry.estado_anterior;
+    }
+    if (entry.accion === "mover" || entry.accion === "conteo") {
+      restorePatch.ubicacion_id = entry.ubicacion_anterior_id;
+    }
+    if (entry.laminas_anteriores !== null) {
+      restorePatch.cantidad_laminas = entry.laminas_anteriores;
+    }
+    // Un uso parcial deja el bulto disponible con menos láminas; se devuelven.
+    const current = currentById.get(entry.bulto_id);
+    if (
+      entry.accion === "utilizar"
+      && current
+      && current.estado !== "usado"
+      && entry.cantidad_laminas
+    ) {
+      restorePatch.cantidad_laminas = (current.cantidad_laminas ?? 0) + entry.cantidad_laminas;
+    }
+    if (Object.keys(restorePatch).length === 0) continue;
+
+    const { error: restoreError } = await repository.bundles.update(
+      [entry.bulto_id],
+      restorePatch,
+    );
+
+    if (restoreError) {
+      throw new Error(`No se pudo restaurar el bulto: ${restoreError.message}`);
+    }
+  }
+
+  const { error: revertError } = await repository.history.update(
+    Array.from(batchEntryIds),
+    { revertido: true },
+  );
+
+  if (revertError) {
+    throw new Error(`No se pudo marcar el historial como revertido: ${revertError.message}`);
+  }
+
+  await syncOrderStatus(bundleIds);
+}
+
+/**
+ * Une dos o más bultos de la misma orden, ubicación y estado en uno solo. El
+ * bulto de menor número conserva la suma de láminas; los demás quedan con
+ * estado "unido" apuntando a él, y todos registran la unión en su historial.
+ */
+export async function mergeBundles({
+  orderId,
+  bundleIds,
+  expectedVersions = {},
+}: {
+  orderId: string;
+  bundleIds: string[];
+  /** Versión de cada bulto que vio el operador. */
+  expectedVersions?: Record<string, number>;
+}) {
+  const uniqueIds = Array.from(new Set(bundleIds));
+  if (uniqueIds.length < 2) {
+    throw new Error("Selecciona al menos dos bultos para unir.");
+  }
+
+  const repository = getRepository();
+  const { data: bundles, error: fetchError } = await repository.bundles.listByIds(uniqueIds);
+
+  if (fetchError) {
+    throw new Error(`No se pudieron leer los bultos seleccionados: ${fetchError.message}`);
+  }
+
+  if (bundles.length !== uniqueIds.length) {
+    throw new Error("Alguno de los bultos seleccionados ya no existe.");
+  }
+
+  if (bundles.some((bundle) => String(bundle.orden_corte_id) !== String(orderId))) {
+    throw new Error("Todos los bultos deben pertenecer a la orden actual.");
+  }
+
+  await ensureOrdersAcceptBundleChanges([orderId]);
+
+  if (
+    bundles.some(
+      (bundle) =>
+        expectedVersions[bundle.id] !== undefined &&
+        expectedVersions[bundle.id] !== bundle.version,
+    )
+  ) {
+    throw new Error(STALE_BUNDLE_MESSAGE);
+  }
+
+  const [first] = bundles;
+  if (bundles.some((bundle) => bundle.ubicacion_id !== first.ubicacion_id)) {
+    throw new Error("Solo se pueden unir bultos que estén en la misma ubicación.");
+  }
+
+  if (bundles.some((bundle) => bundle.estado !== first.estado)) {
+    throw new Error("Solo se pueden unir bultos con el mismo estado.");
+  }
+
+  if (first.estado !== "disponible" && first.estado !== "asignado") {
+    throw new Error("Solo se pueden unir bultos disponibles o asignados.");
+  }
+
+  const { data: orderBundles, error: orderBundlesError } =
+    await repository.bundles.listByOrder(orderId);
+
+  if (orderBundlesError) {
+    throw new Error(
+      `No se pudieron leer los bultos de la orden: ${orderBundlesError.message}`,
+    );
+  }
+
+  // El resultante es el que va primero en el árbol de divisiones.
+  const paths = buildGenealogyPaths(orderBundles);
+  const [target, ...sources] = [...bundles].sort((a, b) =>
+    compareGenealogyPaths(paths.get(a.id) ?? null, paths.get(b.id) ?? null),
+  );
+  const totalSheets = bundles.reduce(
+    (acc, bundle) => acc + (bundle.cantidad_laminas ?? 0),
+    0,
+  );
+
+  const { data: updatedTarget, error: targetError } =
+    await repository.bundles.updateIfVersion(target.id, target.version, {
+      cantidad_laminas: totalSheets,
+    });
+
+  if (targetError) {
+    throw new Error(`No se pudo actualizar el bulto resultante: ${targetError.message}`);
+  }
+
+  if (!updatedTarget) {
+    throw new Error(STALE_BUNDLE_MESSAGE);
+  }
+
+  const absorbed: { id: string; version: number; estado: BundleStatusEnum | null }[] = [];
+
+  const rollback = async () => {
+    for (const item of absorbed) {
+      const { data: restored } = await repository.bundles.updateIfVersion(
+        item.id,
+        item.version,
+        { estado: item.estado, unido_a_id: null },
+      );
+      if (!restored) {
+        console.error(`No se pudo restaurar el bulto ${item.id} tras una unión fallida.`);
+      }
+    }
+    const { data: restoredTarget } = await repository.bundles.updateIfVersion(
+      target.id,
+      updatedTarget.version,
+      { cantidad_laminas: target.cantidad_laminas },
+    );
+    if (!restoredTarget) {
+      console.error(`No se pudo restaurar el bulto ${target.id} tras una unión fallida.`);
+    }
+  };
+
+  for (const source of sources) {
+    const { data: updatedSource, error: sourceError } =
+      await repository.bundles.updateIfVersion(source.id, source.version, {
+        estado: "unido",
+        unido_a_id: target.id,
+      });
+
+    if (sourceError || !updatedSource) {
+      await rollback();
+      throw new Error(
+        sourceError
+          ? `No se pudo unir el bulto: ${sourceError.message}. La unión no se aplicó.`
+          : STALE_BUNDLE_MESSAGE,
+      );
+    }
+
+    absorbed.push({ id: source.id, version: updatedSource.version, estado: source.estado });
+  }
+
+  const batchId = createId();
+  const mergeTimestamp = new Date().toISOString();
+  const historyPayload = [target, ...sources].map((bundle) => ({
+    bulto_id: bundle.id,
+    accion: "unir" as BundleActionEnum,
+    ubicacion_destino_id: target.ubicacion_id,
+    numero_trabajo: null,
+    fecha_hora: mergeTimestamp,
+    cantidad_laminas: bundle.id === target.id ? totalSheets : bundle.cantidad_laminas,
+    lote_id: batchId,
+    estado_anterior: bundle.estado,
+    ubicacion_anterior_id: bundle.ubicacion_id,
+  }));
+
+  const { error: historyError } = await repository.history.insert(historyPayload);
+
+  if (historyError) {
+    await rollback();
+    throw new Error(
+      `No se pudo registrar el historial de la unión: ${historyError.message}. La unión no se aplicó.`,
+    );
+  }
+
+  return target.id;
+}
+
+/**
+ * Aplica una corrección sobre un bulto y la registra en el historial con el
+ * estado, la ubicación y las láminas anteriores, para poder deshacerla como
+ * cualquier otra acción. Si el historial falla, el bulto vuelve a como estaba.
+ */
+async function applyBundleCorrection({
+  bundle,
+  expectedVersion,
+  patch,
+  action,
+  details = {},
+}: {
+  bundle: BundleRow;
+  expectedVersion: number;
+  patch: BundlePatch;
+  action: BundleActionEnum;
+  /** Datos propios de la acción que se suman a la fila del historial. */
+  details?: Partial<Pick<NewHistoryRow, "cantidad_laminas" | "motivo" | "motivo_descarte_id">>;
+}): Promise<BundleActionResult> {
+  const repository = getRepository();
+  const { data: updated, error: updateError } = await repository.bundles.updateIfVersion(
+    bundle.id,
+    expectedVersion,
+    patch,
+  );
+
+  if (updateError) {
+    throw new Error(`No se pudo actualizar el bulto: ${updateError.message}`);
+  }
+
+  if (!updated) {
+    throw new Error(STALE_BUNDLE_MESSAGE);
+  }
+
+  const changesSheets = patch.cantidad_laminas !== undefined;
+  const batchId = createId();
+  const { error: historyError } = await repository.history.insert([
+    {
+      bulto_id: bundle.id,
+      accion: action,
+      ubicacion_destino_id: updated.ubicacion_id,
+      numero_trabajo: null,
+      fecha_hora: new Date().toISOString(),
+      cantidad_laminas: changesSheets ? updated.cantidad_laminas : null,
+      lote_id: batchId,
+      estado_anterior: bundle.estado,
+      ubicacion_anterior_id: bundle.ubicacion_id,
+      laminas_anteriores: changesSheets ? bundle.cantidad_laminas : null,
+      ...details,
+    },
+  ]);
+
+  if (historyError) {
+    const { data: restored } = await repository.bundles.updateIfVersion(
+      bundle.id,
+      updated.version,
+      {
+        ubicacion_id: bundle.ubicacion_id,
+        estado: bundle.estado,
+        cantidad_laminas: bundle.cantidad_laminas,
+      },
+    );
+    if (!restored) {
+      console.error(`No se pudo restaurar el bulto ${bundle.id} tras un ajuste fallido.`);
+    }
+    throw new Error(
+      `No se pudo registrar el ajuste en el historial: ${historyError.message}. El ajuste no se aplicó.`,
+    );
+  }
+
+  await syncOrderStatus([bundle.id]);
+
+  return { batchId };
+}
+
+export type CountAdjustmentInput = {
+  bundleId: string;
+  /** Versión del bulto al armar la conciliación. */
+  expectedVersion: number;
+  /** Ubicación donde se contó; null lo deja sin ubicación y undefined no la cambia. */
+  locationId?: string | null;
+  /** Láminas contadas; undefined no las cambia. */
+  sheets?: number;
+};
+
+/**
+ * Motivo del ajuste por conteo que deja un bulto sin ubicación porque no se
+ * encontró. El bulto sigue en stock y el dashboard lo muestra como faltante.
+ */
+export const MISSING_COUNT_REASON = "faltante";
+
+/**
+ * Corrige un bulto según un conteo físico. El ajuste queda en el historial
+ * como "conteo"; un bulto utilizado que aparece en una ubicación vuelve a
+ * estar disponible.
+ */
+export async function adjustBundleFromCount({
+  bundleId,
+  expectedVersion,
+  locationId,
+  sheets,
+}: CountAdjustmentInput): Promise<BundleActionResult> {
+  const repository = getRepository();
+  const { data: bundle, error: fetchError } = await repository.bundles.findById(bundleId);
+
+  if (fetchError) {
+    throw new Error(`No se pudo leer el bulto: ${fetchError.message}`);
+  }
+
+  if (bundle.estado === "unido") {
+    throw new Error("El bulto fue unido a otro y no se puede ajustar.");
+  }
+
+  await ensureOrdersAcceptBundleChanges([bundle.orden_corte_id]);
+
+  const patch: BundlePatch = {};
+  if (locationId !== undefined && locationId !== bundle.ubicacion_id) {
+    patch.ubicacion_id = locationId;
+  }
+  // Si se encontró en la estantería, un bulto utilizado o descartado vuelve al stock.
+  if (locationId && (bundle.estado === "usado" || bundle.estado === "descartado")) {
+    patch.estado = "disponible";
+  }
+  if (sheets !== undefined && sheets !== bundle.cantidad_laminas) {
+    if (!Number.isInteger(sheets) || sheets <= 0) {
+      throw new Error("Las láminas contadas deben ser un número entero mayor a cero.");
+    }
+    patch.cantidad_laminas = sheets;
+  }
+
+  if (Object.keys(patch).length === 0) {
+    throw new Error("El bulto ya coincide con el conteo.");
+  }
+
+  return applyBundleCorrection({
+    bundle,
+    expectedVersion,
+    patch,
+    action: "conteo",
+    details: locationId === null ? { motivo: MISSING_COUNT_REASON } : {},
+  });
+}
+
+export type SheetAdjustmentInput = {
+  bundleId: string;
+  /** Versión del bulto que vio el operador. */
+  expectedVersion: number;
+  sheets: number;
+  reason: SheetAdjustmentReason;
+};
+
+/**
+ * Corrige la cantidad de láminas de un bulto en stock. El motivo es
+ * obligatorio y el historial guarda la cantidad anterior y la nueva.
+ */
+export async function adjustBundleSheets({
+  bundleId,
+  expectedVersion,
+  sheets,
+  reason,
+}: SheetAdjustmentInput): Promise<BundleActionResult> {
+  if (!isSheetAdjustmentReason(reason)) {
+    throw new Error("Selecciona el motivo del ajuste.");
+  }
+  if (!Number.isInteger(sheets) || sheets <= 0) {
+    throw new Error("La nueva cantidad debe ser un número entero mayor a cero.");
+  }
+
+  const repository = getRepository();
+  const { data: bundle, error: fetchError } = await repository.bundles.findById(bundleId);
+
+  if (fetchError) {
+    throw new Error(`No se pudo leer el bulto: ${fetchError.message}`);
+  }
+
+  if (bundle.estado !== "disponible" && bundle.estado !== "asignado") {
+    throw new Error("Solo se pueden ajustar las láminas de bultos disponibles o asignados.");
+  }
+
+  if (sheets === bundle.cantidad_laminas) {
+    throw new Error("La nueva cantidad es igual a la actual.");
+  }
+
+  await ensureOrdersAcceptBundleChanges([bundle.orden_corte_id]);
+
+  return applyBundleCorrection({
+    bundle,
+    expectedVersion,
+    patch: { cantidad_laminas: sheets },
+    action: "ajustar",
+    details: { motivo: reason },
+  });
+}
+
+export type DiscardBundleInput = {
+  bundleId: string;
+  /** Versión del bulto que vio el operador. */
+  expectedVersion: number;
+  /** Láminas a descartar; null o la cantidad total descarta el bulto entero. */
+  sheets: number | null;
+  scrapReasonId: string;
+};
+
+/**
+ * Descarta un bulto entero, que pasa al estado final "descartado", o parte de
+ * sus láminas, que se descuentan del bulto. El historial guarda las láminas
+ * descartadas y el motivo para el informe de desperdicio.
+ */
+export async function discardBundle({
+  bundleId,
+  expectedVersion,
+  sheets,
+  scrapReasonId,
+}: DiscardBundleInput): Promise<BundleActionResult> {
+  const repository = getRepository();
+  const { data: reasons, error: reasonsError } = await repository.scrapReasons.list();
+
+  if (reasonsError) {
+    throw new Error(`No se pudieron cargar los motivos de descarte: ${reasonsError.message}`);
+  }
+
+  if (!reasons.some((reason) => reason.id === scrapReasonId && reason.activo)) {
+    throw new Error("Selecciona un motivo de descarte válido.");
+  }
+
+  const { data: bundle, error: fetchError } = await repository.bundles.findById(bundleId);
+
+  if (fetchError) {
+    throw new Error(`No se pudo leer el bulto: ${fetchError.message}`);
+  }
+
+  if (bundle.estado !== "disponible" && bundle.estado !== "asignado") {
+    throw new Error("Solo se pueden descartar bultos disponibles o asignados.");
+  }
+
+  const available = bundle.cantidad_laminas ?? 0;
+  if (sheets !== null) {
+    if (!Number.isInteger(sheets) || sheets <= 0) {
+      throw new Error("La cantidad a descartar debe ser un número entero mayor a cero.");
+    }
+    if (sheets > available) {
+      throw new Error(
+        `El bulto solo tiene ${available.toLocaleString("es-ES")} láminas.`,
+      );
+    }
+  }
+
+  await ensureOrdersAcceptBundleChanges([bundle.orden_corte_id]);
+
+  // El bulto entero conserva sus láminas para el informe; un descarte parcial
+  // las descuenta y guarda la cantidad anterior para poder deshacerlo.
+  const isPartial = sheets !== null && sheets < available;
+  return applyBundleCorrection({
+    bundle,
+    expectedVersion,
+    patch: isPartial ? { cantidad_laminas: available - sheets } : { estado: "descartado" },
+    action: "descartar",
+    details: {
+      cantidad_laminas: isPartial ? sheets : available,
+      motivo_descarte_id: scrapReasonId,
+    },
+  });
 }
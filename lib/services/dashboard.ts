@@ -1,8 +1,17 @@
-import { supabase } from "@/lib/supabase-client";
+import { getRepository, HistoryRow } from "@/lib/repositories";
+import { MISSING_COUNT_REASON } from "./cut-orders";
+import {
+  BundleLineage,
+  compareGenealogyPaths,
+  formatGenealogyCode,
+  getGenealogyPath,
+} from "./bundle-genealogy";
 
 export type DashboardBundle = {
   id: string;
   numeroBulto: number | null;
+  /** Número completo en el árbol de divisiones, p. ej. "3.2.1". */
+  codigoBulto: string | null;
   cantidadLaminas: number;
   estado: string;
   numBobina: string | null;
@@ -11,92 +20,126 @@ export type DashboardBundle = {
   fechaOrden: string;
   materialNombre: string | null;
   materialId: string | null;
+  ordenCancelada: boolean;
+  /** En stock pero sin ubicación porque un conteo no lo encontró. */
+  faltante: boolean;
+  /** Láminas que se utilizaron del bulto, sumando los usos parciales. */
+  laminasConsumidas: number;
 };
 
+/** Etiqueta de ubicación de los bultos que un conteo dio por faltantes. */
+export const MISSING_LOCATION_LABEL = "Faltante";
+
 export type DashboardFilters = {
   ubicacion?: string;
   materialId?: string;
   estado?: string;
   ordenCorte?: string;
   numBobina?: string;
+  /** Incluye los bultos de órdenes canceladas, que se ocultan por defecto. */
+  incluirCanceladas?: boolean;
 };
 
 export type LocationSummary = {
   ubicacion: string;
   cantidadBultos: number;
+  /** Láminas que siguen en stock; las de bultos utilizados no cuentan. */
   totalLaminas: number;
+  laminasConsumidas: number;
 };
 
 export type MaterialSummary = {
   materialId: string | null;
   materialNombre: string | null;
   cantidadBultos: number;
+  /** Láminas que siguen en stock; las de bultos utilizados no cuentan. */
   totalLaminas: number;
+  laminasConsumidas: number;
 };
 
-type SupabaseDashboardBundle = {
+export type ScrapEntry = {
   id: string;
-  numero_bulto: number | null;
-  cantidad_laminas: number | null;
-  estado: string | null;
-  num_bobina: string | null;
-  ubicacion: { codigo: string | null } | null;
-  orden_corte: {
-    numero_orden: string;
-    fecha: string | null;
-    material: { id: string; nombre: string } | null;
-  } | null;
+  fecha: string;
+  laminas: number;
+  /** true si se descartó el bulto entero y no solo parte de sus láminas. */
+  bultoCompleto: boolean;
+  motivoId: string | null;
+  motivoNombre: string;
+  materialId: string | null;
+  materialNombre: string;
+  ordenCorte: string;
+};
+
+export type ScrapPeriod = {
+  /** Día inicial inclusive, en formato AAAA-MM-DD. */
+  desde?: string;
+  /** Día final inclusive, en formato AAAA-MM-DD. */
+  hasta?: string;
+};
+
+export type ScrapGroupBy = "material" | "motivo" | "mes";
+
+export type ScrapSummary = {
+  clave: string;
+  etiqueta: string;
+  cantidadDescartes: number;
+  totalLaminas: number;
 };
 
+const MONTH_FORMATTER = new Intl.DateTimeFormat("es-AR", { month: "long", year: "numeric" });
+
 export async function fetchDashboardBundles(
   filters: DashboardFilters = {}
 ): Promise<DashboardBundle[]> {
-  let query = supabase
-    .from("bultos")
-    .select(
-      `
-      id,
-      numero_bulto,
-      cantidad_laminas,
-      estado,
-      num_bobina,
-      ubicacion:ubicaciones ( codigo ),
-      orden_corte:ordenes_corte (
-        numero_orden,
-        fecha,
-        material:materiales ( id, nombre )
-      )
-    `
-    )
-    .order("numero_bulto", { ascending: true });
-
-  // Aplicar filtros
-  if (filters.estado) {
-    query = query.eq("estado", filters.estado);
-  }
+  const { data, error } = await getRepository().bundles.listForDashboard({
+    estado: filters.estado,
+    numBobina: filters.numBobina,
+  });
 
-  if (filters.numBobina) {
-    query = query.ilike("num_bobina", `%${filters.numBobina}%`);
+  if (error) {
+    throw new Error(`No se pudieron cargar los bultos: ${error.message}`);
   }
 
-  const { data, error } = await query.returns<SupabaseDashboardBundle[]>();
+  const lineage = await loadBundleLineage(data);
+  const missingIds = await loadMissingBundleIds();
+  const consumedSheets = await loadConsumedSheets();
 
-  if (error) {
-    throw new Error(`No se pudieron cargar los bultos: ${error.message}`);
+  let bundles = data.map((bundle): DashboardBundle => {
+    const faltante =
+      !bundle.ubicacion
+      && (bundle.estado === "disponible" || bundle.estado === "asignado")
+      && missingIds.has(bundle.id);
+    // Los usos anteriores al registro parcial no guardaban la cantidad.
+    const laminasConsumidas =
+      consumedSheets.get(bundle.id)
+      ?? (bundle.estado === "usado" ? bundle.cantidad_laminas ?? 0 : 0);
+    return {
+      id: bundle.id,
+      numeroBulto: bundle.numero_bulto,
+      codigoBulto: formatGenealogyCode(getGenealogyPath(bundle, lineage)),
+      cantidadLaminas: bundle.cantidad_laminas ?? 0,
+      estado: bundle.estado ?? "Sin estado",
+      numBobina: bundle.num_bobina,
+      ubicacion:
+        bundle.ubicacion?.codigo ?? (faltante ? MISSING_LOCATION_LABEL : "Sin ubicación"),
+      ordenCorte: bundle.orden_corte?.numero_orden ?? "Sin orden",
+      fechaOrden: bundle.orden_corte?.fecha ?? "",
+      materialNombre: bundle.orden_corte?.material?.nombre ?? null,
+      materialId: bundle.orden_corte?.material?.id ?? null,
+      ordenCancelada: Boolean(bundle.orden_corte?.cancelada_en),
+      faltante,
+      laminasConsumidas,
+    };
+  });
+
+  if (!filters.incluirCanceladas) {
+    bundles = bundles.filter((b) => !b.ordenCancelada);
   }
 
-  let bundles = (data ?? []).map((bundle): DashboardBundle => ({
-    id: bundle.id,
-    numeroBulto: bundle.numero_bulto,
-    cantidadLaminas: bundle.cantidad_laminas ?? 0,
-    estado: bundle.estado ?? "Sin estado",
-    numBobina: bundle.num_bobina,
-    ubicacion: bundle.ubicacion?.codigo ?? "Sin ubicación",
-    ordenCorte: bundle.orden_corte?.numero_orden ?? "Sin orden",
-    fechaOrden: bundle.orden_corte?.fecha ?? "",
-    materialNombre: bundle.orden_corte?.material?.nombre ?? null,
-    materialId: bundle.orden_corte?.material?.id ?? null,
-  }));
+  // Los bultos unidos ya forman parte de otro; solo se muestran si se piden
+  if (!filters.estado) {
+    bundles = bundles.filter((b) => b.estado !== "unido");
+  }
 
   // Filtrar por ubicación en JavaScript (porque es una relación)
   if (filters.ubicacion) {
@@ -117,22 +160,98 @@ export async function fetchDashboardBundles(
     );
   }
 
-  return bundles;
+  return bundles.sort(
+    (a, b) =>
+      compareGenealogyPaths(parseBundleCode(a.codigoBulto), parseBundleCode(b.codigoBulto)) ||
+      a.ordenCorte.localeCompare(b.ordenCorte),
+  );
+}
+
+/** Bultos que algún conteo vigente dejó sin ubicación por no encontrarlos. */
+async function loadMissingBundleIds() {
+  const { data, error } = await getRepository().history.listByAction({ accion: "conteo" });
+  if (error) {
+    throw new Error(`No se pudieron cargar los ajustes por conteo: ${error.message}`);
+  }
+  return new Set(
+    data
+      .filter((entry) => entry.motivo === MISSING_COUNT_REASON)
+      .map((entry) => entry.bulto_id),
+  );
+}
+
+/** Láminas utilizadas por bulto según los usos vigentes del historial. */
+async function loadConsumedSheets() {
+  const { data, error } = await getRepository().history.listByAction({ accion: "utilizar" });
+  if (error) {
+    throw new Error(`No se pudieron cargar los usos de los bultos: ${error.message}`);
+  }
+  const consumed = new Map<string, number>();
+  data
+    .filter((entry) => entry.cantidad_laminas !== null)
+    .forEach((entry) => {
+      consumed.set(
+        entry.bulto_id,
+        (consumed.get(entry.bulto_id) ?? 0) + (entry.cantidad_laminas ?? 0),
+      );
+    });
+  return consumed;
+}
+
+const parseBundleCode = (code: string | null) =>
+  code ? code.split(".").map(Number) : null;
+
+/**
+ * Reúne los bultos y sus ancestros para poder numerarlos aunque el filtro
+ * haya dejado fuera a alguno de los padres.
+ */
+async function loadBundleLineage(bundles: BundleLineage[]) {
+  const lineage = new Map<string, BundleLineage>(
+    bundles.map((bundle) => [bundle.id, bundle]),
+  );
+  let missing = bundles
+    .map((bundle) => bundle.bulto_padre_id)
+    .filter((id): id is string => id !== null && !lineage.has(id));
+
+  while (missing.length > 0) {
+    const { data: parents, error } = await getRepository().bundles.listByIds(
+      Array.from(new Set(missing)),
+    );
+    if (error) {
+      throw new Error(`No se pudieron cargar los bultos: ${error.message}`);
+    }
+    if (parents.length === 0) break;
+    parents.forEach((parent) => lineage.set(parent.id, parent));
+    missing = parents
+      .map((parent) => parent.bulto_padre_id)
+      .filter((id): id is string => id !== null && !lineage.has(id));
+  }
+
+  return lineage;
 }
 
+// Los descartados no son stock disponible aunque sigan en el listado.
+const isStockBundle = (bundle: DashboardBundle) => bundle.estado !== "descartado";
+
+// Un bulto utilizado conserva su cantidad, pero esas láminas ya se consumieron.
+const stockSheets = (bundle: DashboardBundle) =>
+  bundle.estado === "usado" ? 0 : bundle.cantidadLaminas;
+
 export function getLocationSummary(bundles: DashboardBundle[]): LocationSummary[] {
   const map = new Map<string, LocationSummary>();
 
-  bundles.forEach((bundle) => {
+  bundles.filter(isStockBundle).forEach((bundle) => {
     const existing = map.get(bundle.ubicacion);
     if (existing) {
       existing.cantidadBultos += 1;
-      existing.totalLaminas += bundle.cantidadLaminas;
+      existing.totalLaminas += stockSheets(bundle);
+      existing.laminasConsumidas += bundle.laminasConsumidas;
     } else {
       map.set(bundle.ubicacion, {
         ubicacion: bundle.ubicacion,
         cantidadBultos: 1,
-        totalLaminas: bundle.cantidadLaminas,
+        totalLaminas: stockSheets(bundle),
+        laminasConsumidas: bundle.laminasConsumidas,
       });
     }
   });
@@ -145,18 +264,20 @@ export function getLocationSummary(bundles: DashboardBundle[]): LocationSummary[
 export function getMaterialSummary(bundles: DashboardBundle[]): MaterialSummary[] {
   const map = new Map<string, MaterialSummary>();
 
-  bundles.forEach((bundle) => {
+  bundles.filter(isStockBundle).forEach((bundle) => {
     const key = bundle.materialId ?? "sin-material";
     const existing = map.get(key);
     if (existing) {
       existing.cantidadBultos += 1;
-      existing.totalLaminas += bundle.cantidadLaminas;
+      existing.totalLaminas += stockSheets(bundle);
+      existing.laminasConsumidas += bundle.laminasConsumidas;
     } else {
       map.set(key, {
         materialId: bundle.materialId,
         materialNombre: bundle.materialNombre ?? "Sin material",
         cantidadBultos: 1,
-        totalLaminas: bundle.cantidadLaminas,
+        totalLaminas: stockSheets(bundle),
+        laminasConsumidas: bundle.laminasConsumidas,
       });
     }
   });
@@ -165,3 +286,97 @@ export function getMaterialSummary(bundles: DashboardBundle[]): MaterialSummary[
     (a.materialNombre ?? "").localeCompare(b.materialNombre ?? "")
   );
 }
+
+const startOfDay = (day: string, offsetDays = 0) => {
+  const date = new Date(`${day}T00:00:00`);
+  date.setDate(date.getDate() + offsetDays);
+  return date.toISOString();
+};
+
+/** Descartes del período con su material y motivo, sin los que se deshicieron. */
+export async function fetchScrapEntries(period: ScrapPeriod = {}): Promise<ScrapEntry[]> {
+  const repository = getRepository();
+  const [
+    { data: entries, error: historyError },
+    { data: bundles, error: bundlesError },
+    { data: reasons, error: reasonsError },
+  ] = await Promise.all([
+    repository.history.listByAction({
+      accion: "descartar",
+      desde: period.desde ? startOfDay(period.desde) : undefined,
+      hasta: period.hasta ? startOfDay(period.hasta, 1) : undefined,
+    }),
+    repository.bundles.listForDashboard({}),
+    repository.scrapReasons.list(),
+  ]);
+
+  if (historyError) {
+    throw new Error(`No se pudieron cargar los descartes: ${historyError.message}`);
+  }
+  if (bundlesError) {
+    throw new Error(`No se pudieron cargar los bultos: ${bundlesError.message}`);
+  }
+  if (reasonsError) {
+    throw new Error(`No se pudieron cargar los motivos de descarte: ${reasonsError.message}`);
+  }
+
+  const bundlesById = new Map(bundles.map((bundle) => [bundle.id, bundle]));
+  const reasonsById = new Map(reasons.map((reason) => [reason.id, reason.nombre]));
+
+  // Un bulto descartado entero que un conteo devolvió al stock ya no es desperdicio.
+  const isStillScrap = (entry: HistoryRow) =>
+    entry.laminas_anteriores !== null
+    || bundlesById.get(entry.bulto_id)?.estado === "descartado";
+
+  return entries.filter(isStillScrap).map((entry) => {
+    const bundle = bundlesById.get(entry.bulto_id);
+    return {
+      id: entry.id,
+      fecha: entry.fecha_hora ?? "",
+      laminas: entry.cantidad_laminas ?? 0,
+      bultoCompleto: entry.laminas_anteriores === null,
+      motivoId: entry.motivo_descarte_id,
+      motivoNombre:
+        (entry.motivo_descarte_id && reasonsById.get(entry.motivo_descarte_id)) || "Sin motivo",
+      materialId: bundle?.orden_corte?.material?.id ?? null,
+      materialNombre: bundle?.orden_corte?.material?.nombre ?? "Sin material",
+      ordenCorte: bundle?.orden_corte?.numero_orden ?? "Sin orden",
+    };
+  });
+}
+
+const scrapGroupKey = (entry: ScrapEntry, groupBy: ScrapGroupBy) => {
+  if (groupBy === "material") {
+    return { clave: entry.materialId ?? "sin-material", etiqueta: entry.materialNombre };
+  }
+  if (groupBy === "motivo") {
+    return { clave: entry.motivoId ?? "sin-motivo", etiqueta: entry.motivoNombre };
+  }
+  const date = new Date(entry.fecha);
+  if (Number.isNaN(date.getTime())) return { clave: "sin-fecha", etiqueta: "Sin fecha" };
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  return { clave: `${date.getFullYear()}-${month}`, etiqueta: MONTH_FORMATTER.format(date) };
+};
+
+export function getScrapSummary(entries: ScrapEntry[], groupBy: ScrapGroupBy): ScrapSummary[] {
+  const map = new Map<string, ScrapSummary>();
+
+  entries.forEach((entry) => {
+    const { clave, etiqueta } = scrapGroupKey(entry, groupBy);
+    const existing = map.get(clave);
+    if (existing) {
+      existing.cantidadDescartes += 1;
+      existing.totalLaminas += entry.laminas;
+    } else {
+      map.set(clave, { clave, etiqueta, cantidadDescartes: 1, totalLaminas: entry.laminas });
+    }
+  });
+
+  const summary = Array.from(map.values());
+  // Los meses van en orden cronológico; el resto, de mayor a menor desperdicio.
+  return groupBy === "mes"
+    ? summary.sort((a, b) => a.clave.localeCompare(b.clave))
+    : summary.sort(
+        (a, b) => b.totalLaminas - a.totalLaminas || a.etiqueta.localeCompare(b.etiqueta),
+      );
+}
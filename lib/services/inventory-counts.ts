@@ -0,0 +1,343 @@
+import {
+  BundleRow,
+  BundleStatusEnum,
+  getRepository,
+  InventoryCountLine,
+  InventoryCountRow,
+  InventoryCountStatusEnum,
+  InventoryDiscrepancyEnum,
+} from "@/lib/repositories";
+import { buildGenealogyPaths, formatGenealogyCode } from "./bundle-genealogy";
+import { adjustBundleFromCount, undoBundleAction } from "./cut-orders";
+
+export type InventoryCountSummary = {
+  id: string;
+  locationCode: string;
+  status: InventoryCountStatusEnum;
+  startedAt: string;
+  closedAt: string | null;
+  foundCount: number;
+  adjustmentCount: number;
+};
+
+export type CountedBundleInput = {
+  bundleId: string;
+  /** Láminas contadas; null si solo se marcó como encontrado. */
+  countedSheets: number | null;
+};
+
+/** Un bulto del informe de conciliación: esperado en la ubicación, contado o ajustado. */
+export type ReconciliationRow = {
+  bundleId: string;
+  name: string;
+  orderCode: string;
+  status: BundleStatusEnum | null;
+  /** Ubicación que registra el sistema hoy. */
+  locationCode: string | null;
+  version: number;
+  sheets: number;
+  found: boolean;
+  countedSheets: number | null;
+  /** null cuando el conteo coincide con el sistema. */
+  discrepancy: InventoryDiscrepancyEnum | null;
+  /** Acción del ajuste aplicado, para poder deshacerlo. */
+  adjustmentBatchId: string | null;
+};
+
+export type InventoryCount = {
+  id: string;
+  locationId: string;
+  locationCode: string;
+  status: InventoryCountStatusEnum;
+  startedAt: string;
+  closedAt: string | null;
+  rows: ReconciliationRow[];
+};
+
+export const inventoryDiscrepancyLabels: Record<InventoryDiscrepancyEnum, string> = {
+  faltante: "Faltante",
+  inesperado: "Inesperado",
+  diferencia: "Diferencia de láminas",
+};
+
+// Solo se espera encontrar los bultos que siguen en stock.
+const isInStock = (bundle: BundleRow) =>
+  bundle.estado === "disponible" || bundle.estado === "asignado";
+
+const readCount = async (countId: string): Promise<InventoryCountRow> => {
+  const { data: count, error } = await getRepository().inventoryCounts.findById(countId);
+  if (error) {
+    throw new Error(`No se pudo leer el conteo: ${error.message}`);
+  }
+  return count;
+};
+
+const readOpenCount = async (countId: string) => {
+  const count = await readCount(countId);
+  if (count.estado !== "abierto") {
+    throw new Error("El conteo ya está cerrado.");
+  }
+  return count;
+};
+
+const readLocationCodes = async () => {
+  const { data: locations, error } = await getRepository().locations.list();
+  if (error) {
+    throw new Error(`No se pudieron cargar las ubicaciones: ${error.message}`);
+  }
+  return new Map(locations.map((location) => [location.id, location.codigo ?? "Sin código"]));
+};
+
+export async function fetchInventoryCounts(): Promise<InventoryCountSummary[]> {
+  const { data: counts, error } = await getRepository().inventoryCounts.list();
+  if (error) {
+    throw new Error(`No se pudieron cargar los conteos: ${error.message}`);
+  }
+  const locationCodes = await readLocationCodes();
+
+  return counts.map((count) => ({
+    id: count.id,
+    locationCode: locationCodes.get(count.ubicacion_id) ?? "Sin código",
+    status: count.estado,
+    startedAt: count.iniciado_en,
+    closedAt: count.cerrado_en,
+    foundCount: count.lineas.length,
+    adjustmentCount: count.ajustes.length,
+  }));
+}
+
+/** Abre un conteo para la ubicación; solo puede haber uno abierto por ubicación. */
+export async function startInventoryCount(locationCode: string): Promise<string> {
+  const code = locationCode.trim();
+  if (!code) {
+    throw new Error("Selecciona la ubicación a contar.");
+  }
+
+  const repository = getRepository();
+  const { data: locations, error: locationError } = await repository.locations.findByCodes([
+    code,
+  ]);
+  if (locationError) {
+    throw new Error(`No se pudo buscar la ubicación: ${locationError.message}`);
+  }
+  const location = locations[0];
+  if (!location) {
+    throw new Error(`La ubicación ${code} no existe.`);
+  }
+  if (!location.activo) {
+    throw new Error(`La ubicación ${location.codigo} está inactiva.`);
+  }
+
+  const { data: counts, error: countsError } = await repository.inventoryCounts.list();
+  if (countsError) {
+    throw new Error(`No se pudieron cargar los conteos: ${countsError.message}`);
+  }
+  if (counts.some((count) => count.ubicacion_id === location.id && count.estado === "abierto")) {
+    throw new Error(`Ya hay un conteo abierto en ${code}.`);
+  }
+
+  const { data: created, error } = await repository.inventoryCounts.insert({
+    ubicacion_id: location.id,
+  });
+  if (error) {
+    throw new Error(`No se pudo iniciar el conteo: ${error.message}`);
+  }
+  return created.id;
+}
+
+/**
+ * Arma el informe de conciliación con el estado actual de los bultos: los que
+ * el sistema ubica ahí y no se contaron faltan, los contados que el sistema no
+ * espera ahí son inesperados y el resto se compara por láminas. Los bultos ya
+ * ajustados conservan la diferencia que se corrigió.
+ */
+export async function fetchInventoryCount(countId: string): Promise<InventoryCount> {
+  const repository = getRepository();
+  const count = await readCount(countId);
+  const locationCodes = await readLocationCodes();
+
+  const { data: expected, error: expectedError } = await repository.bundles.listByLocation(
+    count.ubicacion_id,
+  );
+  if (expectedError) {
+    throw new Error(`No se pudieron leer los bultos de la ubicación: ${expectedError.message}`);
+  }
+
+  const expectedIds = expected.filter(isInStock).map((bundle) => bundle.id);
+  const bundleIds = Array.from(
+    new Set([
+      ...expectedIds,
+      ...count.lineas.map((line) => line.bulto_id),
+      ...count.ajustes.map((adjustment) => adjustment.bulto_id),
+    ]),
+  );
+  const { data: bundles, error: bundlesError } = bundleIds.length
+    ? await repository.bundles.listByIds(bundleIds)
+    : { data: [] as BundleRow[], error: null };
+  if (bundlesError) {
+    throw new Error(`No se pudieron leer los bultos: ${bundlesError.message}`);
+  }
+
+  // El nombre del bulto depende de la genealogía de toda su orden.
+  const orderIds = Array.from(new Set(bundles.map((bundle) => bundle.orden_corte_id)));
+  const orderInfo = new Map<string, { code: string; paths: Map<string, number[] | null> }>();
+  for (const orderId of orderIds) {
+    const [{ data: order, error: orderError }, { data: orderBundles, error: orderBundlesError }] =
+      await Promise.all([
+        repository.orders.findById(orderId),
+        repository.bundles.listByOrder(orderId),
+      ]);
+    if (orderError || orderBundlesError) {
+      throw new Error(
+        `No se pudo leer la orden de un bulto: ${(orderError ?? orderBundlesError)?.message}`,
+      );
+    }
+    orderInfo.set(orderId, {
+      code: order.numero_orden,
+      paths: buildGenealogyPaths(orderBundles),
+    });
+  }
+
+  const linesById = new Map(count.lineas.map((line) => [line.bulto_id, line]));
+  const adjustmentsById = new Map(
+    count.ajustes.map((adjustment) => [adjustment.bulto_id, adjustment]),
+  );
+
+  const rows = bundles.map((bundle): ReconciliationRow => {
+    const info = orderInfo.get(bundle.orden_corte_id);
+    const genealogyCode = formatGenealogyCode(info?.paths.get(bundle.id) ?? null);
+    const line = linesById.get(bundle.id);
+    const adjustment = adjustmentsById.get(bundle.id);
+    const sheets = bundle.cantidad_laminas ?? 0;
+
+    let discrepancy: InventoryDiscrepancyEnum | null = null;
+    if (adjustment) {
+      discrepancy = adjustment.tipo;
+    } else if (!line) {
+      discrepancy = "faltante";
+    } else if (bundle.ubicacion_id !== count.ubicacion_id || !isInStock(bundle)) {
+      discrepancy = "inesperado";
+    } else if (line.laminas_contadas !== null && line.laminas_contadas !== sheets) {
+      discrepancy = "diferencia";
+    }
+
+    return {
+      bundleId: bundle.id,
+      name: genealogyCode ? `Bulto #${genealogyCode}` : "Bulto sin número",
+      orderCode: info?.code ?? "-",
+      status: bundle.estado,
+      locationCode: bundle.ubicacion_id ? locationCodes.get(bundle.ubicacion_id) ?? null : null,
+      version: bundle.version,
+      sheets,
+      found: Boolean(line),
+      countedSheets: line?.laminas_contadas ?? null,
+      discrepancy,
+      adjustmentBatchId: adjustment?.lote_id ?? null,
+    };
+  });
+
+  rows.sort(
+    (a, b) =>
+      a.orderCode.localeCompare(b.orderCode, "es", { numeric: true })
+      || a.name.localeCompare(b.name, "es", { numeric: true }),
+  );
+
+  return {
+    id: count.id,
+    locationId: count.ubicacion_id,
+    locationCode: locationCodes.get(count.ubicacion_id) ?? "Sin código",
+    status: count.estado,
+    startedAt: count.iniciado_en,
+    closedAt: count.cerrado_en,
+    rows,
+  };
+}
+
+/** Reemplaza los bultos encontrados del conteo. */
+export async function saveInventoryCountLines(countId: string, lines: CountedBundleInput[]) {
+  await readOpenCount(countId);
+
+  const invalid = lines.find(
+    (line) =>
+      line.countedSheets !== null
+      && (!Number.isInteger(line.countedSheets) || line.countedSheets <= 0),
+  );
+  if (invalid) {
+    throw new Error("Las láminas contadas deben ser un número entero mayor a cero.");
+  }
+
+  const byBundle = new Map<string, InventoryCountLine>();
+  lines.forEach((line) =>
+    byBundle.set(line.bundleId, { bulto_id: line.bundleId, laminas_contadas: line.countedSheets }),
+  );
+
+  const { error } = await getRepository().inventoryCounts.update(countId, {
+    lineas: Array.from(byBundle.values()),
+  });
+  if (error) {
+    throw new Error(`No se pudo guardar el conteo: ${error.message}`);
+  }
+}
+
+/**
+ * Corrige el sistema según lo contado: un faltante queda sin ubicación, un
+ * inesperado pasa a la ubicación contada (y vuelve a estar disponible si
+ * figuraba como utilizado o descartado) y una diferencia toma las láminas
+ * contadas. Cada ajuste queda en el historial del bulto y se puede deshacer.
+ * El faltante conserva su estado, así que sigue en stock y el dashboard lo
+ * marca como faltante hasta que se mueva a una ubicación.
+ */
+export async function applyCountAdjustment(countId: string, bundleId: string) {
+  await readOpenCount(countId);
+  const count = await fetchInventoryCount(countId);
+  const row = count.rows.find((item) => item.bundleId === bundleId);
+  if (!row?.discrepancy || row.adjustmentBatchId) {
+    throw new Error("El bulto no tiene diferencias pendientes de ajustar.");
+  }
+
+  const sheets = row.countedSheets ?? undefined;
+  const { batchId } = await adjustBundleFromCount({
+    bundleId,
+    expectedVersion: row.version,
+    locationId: row.discrepancy === "faltante" ? null : count.locationId,
+    sheets: row.discrepancy === "faltante" ? undefined : sheets,
+  });
+
+  const { ajustes } = await readCount(countId);
+  const { error } = await getRepository().inventoryCounts.update(countId, {
+    ajustes: [...ajustes, { bulto_id: bundleId, lote_id: batchId, tipo: row.discrepancy }],
+  });
+  if (error) {
+    await undoBundleAction({ batchId });
+    throw new Error(`No se pudo registrar el ajuste en el conteo: ${error.message}`);
+  }
+}
+
+export async function undoCountAdjustment(countId: string, bundleId: string) {
+  const count = await readOpenCount(countId);
+  const adjustment = count.ajustes.find((item) => item.bulto_id === bundleId);
+  if (!adjustment) {
+    throw new Error("No se encontró el ajuste a deshacer.");
+  }
+
+  await undoBundleAction({ batchId: adjustment.lote_id });
+
+  const { error } = await getRepository().inventoryCounts.update(countId, {
+    ajustes: count.ajustes.filter((item) => item.bulto_id !== bundleId),
+  });
+  if (error) {
+    throw new Error(`El ajuste se deshizo pero no se pudo actualizar el conteo: ${error.message}`);
+  }
+}
+
+/** Cierra el conteo; después ya no admite cambios ni ajustes. */
+export async function closeInventoryCount(countId: string) {
+  await readOpenCount(countId);
+  const { error } = await getRepository().inventoryCounts.update(countId, {
+    estado: "cerrado",
+    cerrado_en: new Date().toISOString(),
+  });
+  if (error) {
+    throw new Error(`No se pudo cerrar el conteo: ${error.message}`);
+  }
+}
@@ -1,23 +1,176 @@
-import { supabase } from "@/lib/supabase-client";
+import { getRepository, LocationRow } from "@/lib/repositories";
+import { replaceFormDraftLocation } from "@/lib/order-form-drafts";
 
 export type Location = {
   id: string;
   codigo: string;
+  activo: boolean;
+};
+
+export type LocationCatalogEntry = Location & {
+  /** Bultos disponibles o asignados que están en la ubicación. */
+  stockBundles: number;
+};
+
+const toLocation = (row: LocationRow): Location => ({
+  id: row.id,
+  codigo: row.codigo ?? "",
+  activo: row.activo,
+});
+
+const readLocations = async (): Promise<Location[]> => {
+  const { data, error } = await getRepository().locations.list();
+
+  if (error) {
+    throw new Error(`No se pudieron cargar las ubicaciones: ${error.message}`);
+  }
+
+  return data.filter((location) => location.codigo !== null).map(toLocation);
+};
+
+const findLocation = (locations: Location[], id: string) => {
+  const location = locations.find((item) => item.id === id);
+  if (!location) {
+    throw new Error("No se encontró la ubicación.");
+  }
+  return location;
+};
+
+/** Quita espacios sobrantes y rechaza códigos que ya existen, sin distinguir mayúsculas. */
+const validateCode = (locations: Location[], value: string, currentId?: string) => {
+  const code = value.trim().replace(/\s+/g, " ");
+  if (!code) {
+    throw new Error("Ingresa el código de la ubicación.");
+  }
+  const duplicate = locations.find(
+    (location) =>
+      location.id !== currentId && location.codigo.toLowerCase() === code.toLowerCase(),
+  );
+  if (duplicate) {
+    throw new Error(
+      duplicate.activo
+        ? `Ya existe la ubicación ${duplicate.codigo}.`
+        : `Ya existe la ubicación ${duplicate.codigo}, inactiva. Vuelve a activarla.`,
+    );
+  }
+  return code;
 };
 
 /**
- * Obtiene todas las ubicaciones disponibles desde la base de datos
- * ordenadas alfabéticamente por código
+ * Obtiene las ubicaciones activas desde la base de datos, ordenadas
+ * alfabéticamente por código. Son las únicas que se pueden elegir como destino.
  */
 export async function fetchLocations(): Promise<Location[]> {
-  const { data, error } = await supabase
-    .from("ubicaciones")
-    .select("id, codigo")
-    .order("codigo", { ascending: true });
+  const locations = await readLocations();
+  return locations.filter((location) => location.activo);
+}
+
+/** Catálogo completo, con los bultos en stock de cada ubicación. */
+export async function fetchLocationCatalog(): Promise<LocationCatalogEntry[]> {
+  const locations = await readLocations();
+  const { data: bundles, error } = await getRepository().bundles.listForDashboard({});
 
   if (error) {
-    throw new Error(`No se pudieron cargar las ubicaciones: ${error.message}`);
+    throw new Error(`No se pudieron cargar los bultos: ${error.message}`);
+  }
+
+  const stockByCode = new Map<string, number>();
+  bundles
+    .filter((bundle) => bundle.estado === "disponible" || bundle.estado === "asignado")
+    .forEach((bundle) => {
+      const code = bundle.ubicacion?.codigo;
+      if (code) stockByCode.set(code, (stockByCode.get(code) ?? 0) + 1);
+    });
+
+  return locations.map((location) => ({
+    ...location,
+    stockBundles: stockByCode.get(location.codigo) ?? 0,
+  }));
+}
+
+export async function createLocation(value: string): Promise<Location> {
+  const code = validateCode(await readLocations(), value);
+
+  const { data, error } = await getRepository().locations.insert([code]);
+  if (error) {
+    throw new Error(`No se pudo crear la ubicación: ${error.message}`);
+  }
+  return toLocation(data[0]);
+}
+
+/** El cambio de código se ve en todos los bultos y movimientos de la ubicación. */
+export async function renameLocation(id: string, value: string) {
+  const locations = await readLocations();
+  findLocation(locations, id);
+  const code = validateCode(locations, value, id);
+
+  const { error } = await getRepository().locations.update(id, { codigo: code });
+  if (error) {
+    throw new Error(`No se pudo renombrar la ubicación: ${error.message}`);
+  }
+}
+
+/**
+ * Una ubicación inactiva sigue en el historial pero no se puede elegir como
+ * destino. Solo se desactiva cuando ya no tiene bultos en stock.
+ */
+export async function setLocationActive(id: string, active: boolean) {
+  if (!active) {
+    const catalog = await fetchLocationCatalog();
+    const location = catalog.find((item) => item.id === id);
+    if (!location) {
+      throw new Error("No se encontró la ubicación.");
+    }
+    if (location.stockBundles > 0) {
+      throw new Error(
+        `${location.codigo} todavía tiene ${location.stockBundles} bultos en stock. `
+          + "Muévelos o unifícala con otra ubicación antes de desactivarla.",
+      );
+    }
+  }
+
+  const { error } = await getRepository().locations.update(id, { activo: active });
+  if (error) {
+    throw new Error(
+      `No se pudo ${active ? "activar" : "desactivar"} la ubicación: ${error.message}`,
+    );
+  }
+}
+
+/**
+ * Unifica una ubicación duplicada con otra: sus bultos, movimientos, conteos y
+ * plantillas pasan a `targetId` y la duplicada se elimina del catálogo.
+ */
+export async function mergeLocations(sourceId: string, targetId: string) {
+  if (sourceId === targetId) {
+    throw new Error("Elige dos ubicaciones distintas.");
+  }
+
+  const locations = await readLocations();
+  const source = findLocation(locations, sourceId);
+  const target = findLocation(locations, targetId);
+  if (!target.activo) {
+    throw new Error(`${target.codigo} está inactiva; actívala antes de unificar.`);
+  }
+
+  const repository = getRepository();
+  const { data: counts, error: countsError } = await repository.inventoryCounts.list();
+  if (countsError) {
+    throw new Error(`No se pudieron cargar los conteos: ${countsError.message}`);
+  }
+  const hasOpenCount = (locationId: string) =>
+    counts.some((count) => count.ubicacion_id === locationId && count.estado === "abierto");
+  if (hasOpenCount(sourceId) && hasOpenCount(targetId)) {
+    throw new Error(
+      `${source.codigo} y ${target.codigo} tienen conteos abiertos. Cierra uno antes de unificar.`,
+    );
+  }
+
+  const { error } = await repository.locations.merge(sourceId, targetId);
+  if (error) {
+    throw new Error(`No se pudo unificar ${source.codigo} con ${target.codigo}: ${error.message}`);
   }
 
-  return (data ?? []).filter((location) => location.codigo !== null) as Location[];
+  // Los borradores del navegador también guardan el código.
+  replaceFormDraftLocation(source.codigo, target.codigo);
 }
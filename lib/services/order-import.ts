@@ -0,0 +1,346 @@
+import { getRepository } from "@/lib/repositories";
+import { SpreadsheetRows } from "@/lib/spreadsheet";
+import { createCutOrder } from "./cut-orders";
+import {
+  normalizeOrderCode,
+  validateBobina,
+  validateOrderCode,
+  validateOrderDate,
+  validateSheets,
+} from "./order-validation";
+
+type ImportColumn =
+  | "numero_orden"
+  | "fecha"
+  | "material"
+  | "numero_bulto"
+  | "cantidad_laminas"
+  | "ubicacion"
+  | "num_bobina";
+
+/** Encabezados aceptados para cada columna, sin acentos ni separadores. */
+const COLUMN_ALIASES: Record<ImportColumn, string[]> = {
+  numero_orden: ["numeroorden", "orden", "ordendecorte", "nroorden", "oc"],
+  fecha: ["fecha"],
+  material: ["material", "codigomaterial", "codmaterial"],
+  numero_bulto: ["bulto", "numerobulto", "nrobulto"],
+  cantidad_laminas: ["laminas", "cantidadlaminas", "cantlaminas"],
+  ubicacion: ["ubicacion", "codigoubicacion"],
+  num_bobina: ["bobina", "numbobina", "numerobobina"],
+};
+
+const REQUIRED_COLUMNS: ImportColumn[] = [
+  "numero_orden",
+  "fecha",
+  "numero_bulto",
+  "cantidad_laminas",
+  "ubicacion",
+];
+
+export const importColumnLabels: Record<ImportColumn, string> = {
+  numero_orden: "Orden",
+  fecha: "Fecha",
+  material: "Material",
+  numero_bulto: "Bulto",
+  cantidad_laminas: "Láminas",
+  ubicacion: "Ubicación",
+  num_bobina: "Bobina",
+};
+
+export type ImportRow = {
+  /** Fila de la planilla, contando el encabezado como la fila 1. */
+  rowNumber: number;
+  orderNumber: string;
+  /** Fecha en formato AAAA-MM-DD, o null si no se pudo interpretar. */
+  date: string | null;
+  materialCode: string;
+  materialId: string | null;
+  bundleNumber: number | null;
+  sheets: number | null;
+  location: string;
+  bobina: string;
+  errors: string[];
+};
+
+export type ImportedOrder = {
+  code: string;
+  date: string | null;
+  materialId: string | null;
+  /** Filas de la orden ordenadas por número de bulto. */
+  rows: ImportRow[];
+};
+
+export type ImportPreview = {
+  missingColumns: string[];
+  rows: ImportRow[];
+  orders: ImportedOrder[];
+  hasErrors: boolean;
+};
+
+export type ImportResult = {
+  code: string;
+  orderId: string | null;
+  error: string | null;
+};
+
+const normalizeHeader = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** Acepta AAAA-MM-DD, DD/MM/AAAA y fechas seriales de Excel. */
+const parseImportDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  const toIso = (year: number, month: number, day: number) => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (
+      date.getUTCFullYear() !== year
+      || date.getUTCMonth() !== month - 1
+      || date.getUTCDate() !== day
+    ) {
+      return null;
+    }
+    return `${year}-${pad(month)}-${pad(day)}`;
+  };
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return toIso(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const local = trimmed.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/);
+  if (local) {
+    const year = Number(local[3]) < 100 ? 2000 + Number(local[3]) : Number(local[3]);
+    return toIso(year, Number(local[2]), Number(local[1]));
+  }
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const serial = Math.floor(Number(trimmed));
+    if (serial > 20000 && serial < 80000) {
+      const date = new Date(Date.UTC(1899, 11, 30) + serial * 86400000);
+      return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+    }
+  }
+
+  return null;
+};
+
+const parsePositiveInteger = (value: string) => {
+  const normalized = value.trim().replace(/\.0+$/, "");
+  if (!/^\d+$/.test(normalized)) return null;
+  const parsed = Number(normalized);
+  return parsed > 0 ? parsed : null;
+};
+
+/**
+ * Interpreta la planilla (una fila por bulto) y valida cada fila contra los
+ * materiales, las ubicaciones y las órdenes existentes.
+ */
+export async function previewOrderImport(sheet: SpreadsheetRows): Promise<ImportPreview> {
+  const [header = [], ...body] = sheet;
+  const columnIndexes = new Map<ImportColumn, number>();
+  header.forEach((cell, index) => {
+    const normalized = normalizeHeader(cell);
+    (Object.keys(COLUMN_ALIASES) as ImportColumn[]).forEach((column) => {
+      if (!columnIndexes.has(column) && COLUMN_ALIASES[column].includes(normalized)) {
+        columnIndexes.set(column, index);
+      }
+    });
+  });
+
+  const missingColumns = REQUIRED_COLUMNS.filter((column) => !columnIndexes.has(column)).map(
+    (column) => importColumnLabels[column],
+  );
+  if (missingColumns.length > 0) {
+    return { missingColumns, rows: [], orders: [], hasErrors: true };
+  }
+
+  const repository = getRepository();
+  const [materialsResult, locationsResult] = await Promise.all([
+    repository.materials.listActive(),
+    repository.locations.list(),
+  ]);
+
+  if (materialsResult.error) {
+    throw new Error(`No se pudieron cargar los materiales: ${materialsResult.error.message}`);
+  }
+  if (locationsResult.error) {
+    throw new Error(`No se pudieron cargar las ubicaciones: ${locationsResult.error.message}`);
+  }
+
+  const materialsByCode = new Map(
+    materialsResult.data
+      .filter((material) => material.codigo)
+      .map((material) => [material.codigo!.trim().toLowerCase(), material.id]),
+  );
+  const locationCodes = new Map(
+    locationsResult.data
+      .filter((location) => location.codigo && location.activo)
+      .map((location) => [location.codigo!.trim().toLowerCase(), location.codigo!]),
+  );
+
+  const cell = (row: string[], column: ImportColumn) => {
+    const index = columnIndexes.get(column);
+    return index === undefined ? "" : (row[index] ?? "").trim();
+  };
+
+  const rows: ImportRow[] = [];
+  body.forEach((row, index) => {
+    if (row.every((value) => !value?.trim())) return;
+
+    const errors: string[] = [];
+    const orderNumber = normalizeOrderCode(cell(row, "numero_orden"));
+    const codeError = validateOrderCode(orderNumber);
+    if (codeError) errors.push(codeError);
+
+    const rawDate = cell(row, "fecha");
+    const date = parseImportDate(rawDate);
+    if (!date) {
+      errors.push(rawDate ? `Fecha inválida: ${rawDate}.` : "Falta la fecha.");
+    } else {
+      const dateError = validateOrderDate(date);
+      if (dateError) errors.push(dateError);
+    }
+
+    const materialCode = cell(row, "material");
+    const materialId = materialCode
+      ? materialsByCode.get(materialCode.toLowerCase()) ?? null
+      : null;
+    if (materialCode && !materialId) errors.push(`Material desconocido: ${materialCode}.`);
+
+    const bundleNumber = parsePositiveInteger(cell(row, "numero_bulto"));
+    if (bundleNumber === null) errors.push("Número de bulto inválido.");
+
+    const sheets = parsePositiveInteger(cell(row, "cantidad_laminas"));
+    const sheetsError = validateSheets(sheets ?? undefined);
+    if (sheetsError) errors.push(sheetsError);
+
+    const rawLocation = cell(row, "ubicacion");
+    const location = locationCodes.get(rawLocation.toLowerCase()) ?? rawLocation;
+    if (!rawLocation) {
+      errors.push("Falta la ubicación.");
+    } else if (!locationCodes.has(rawLocation.toLowerCase())) {
+      errors.push(`Ubicación desconocida o inactiva: ${rawLocation}.`);
+    }
+
+    const bobina = cell(row, "num_bobina");
+    const bobinaError = validateBobina(bobina);
+    if (bobinaError) errors.push(bobinaError);
+
+    rows.push({
+      rowNumber: index + 2,
+      orderNumber,
+      date,
+      materialCode,
+      materialId,
+      bundleNumber,
+      sheets,
+      location,
+      bobina,
+      errors,
+    });
+  });
+
+  const rowsByOrder = new Map<string, ImportRow[]>();
+  rows.forEach((row) => {
+    if (!row.orderNumber) return;
+    const list = rowsByOrder.get(row.orderNumber) ?? [];
+    list.push(row);
+    rowsByOrder.set(row.orderNumber, list);
+  });
+
+  const orderNumbers = Array.from(rowsByOrder.keys());
+  if (orderNumbers.length > 0) {
+    const { data: existing, error } = await repository.orders.findByNumbers(orderNumbers);
+    if (error) {
+      throw new Error(`No se pudieron verificar las órdenes existentes: ${error.message}`);
+    }
+    existing.forEach((order) => {
+      rowsByOrder
+        .get(order.numero_orden)
+        ?.forEach((row) => row.errors.push(`La orden ${order.numero_orden} ya existe.`));
+    });
+  }
+
+  const orders: ImportedOrder[] = orderNumbers.map((code) => {
+    const orderRows = [...(rowsByOrder.get(code) ?? [])].sort(
+      (a, b) => (a.bundleNumber ?? 0) - (b.bundleNumber ?? 0),
+    );
+
+    if (new Set(orderRows.map((row) => row.date)).size > 1) {
+      orderRows.forEach((row) => row.errors.push("La orden tiene fechas distintas en el archivo."));
+    }
+    if (new Set(orderRows.map((row) => row.materialCode.toLowerCase())).size > 1) {
+      orderRows.forEach((row) =>
+        row.errors.push("La orden tiene materiales distintos en el archivo."),
+      );
+    }
+
+    // Los bultos se crean numerados del 1 al N, así que el archivo debe respetarlo.
+    const seen = new Set<number>();
+    orderRows.forEach((row) => {
+      if (row.bundleNumber === null) return;
+      if (seen.has(row.bundleNumber)) {
+        row.errors.push(`Bulto #${row.bundleNumber} repetido en la orden.`);
+      } else if (row.bundleNumber > orderRows.length) {
+        row.errors.push(
+          `Los bultos de la orden deben numerarse del 1 al ${orderRows.length} sin saltos.`,
+        );
+      }
+      seen.add(row.bundleNumber);
+    });
+
+    return {
+      code,
+      date: orderRows[0]?.date ?? null,
+      materialId: orderRows[0]?.materialId ?? null,
+      rows: orderRows,
+    };
+  });
+
+  return {
+    missingColumns: [],
+    rows,
+    orders,
+    hasErrors: rows.length === 0 || rows.some((row) => row.errors.length > 0),
+  };
+}
+
+/**
+ * Crea las órdenes de una vista previa sin errores, una por una con
+ * `createCutOrder`. Si alguna falla se informa y se sigue con las demás.
+ */
+export async function importCutOrders(preview: ImportPreview): Promise<ImportResult[]> {
+  if (preview.hasErrors) {
+    throw new Error("Corrige los errores del archivo antes de importar.");
+  }
+
+  const results: ImportResult[] = [];
+  for (const order of preview.orders) {
+    try {
+      const orderId = await createCutOrder({
+        code: order.code,
+        date: order.date ?? "",
+        materialId: order.materialId ?? undefined,
+        bundles: order.rows.map((row) => ({
+          name: `Bulto #${row.bundleNumber}`,
+          currentLocation: row.location,
+          sheets: row.sheets ?? undefined,
+          num_bobina: row.bobina,
+        })),
+      });
+      results.push({ code: order.code, orderId, error: null });
+    } catch (importError) {
+      results.push({
+        code: order.code,
+        orderId: null,
+        error:
+          importError instanceof Error ? importError.message : "No se pudo crear la orden.",
+      });
+    }
+  }
+
+  return results;
+}
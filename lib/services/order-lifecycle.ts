@@ -0,0 +1,29 @@
+import { OrderStatusEnum } from "@/lib/repositories";
+import { CutOrderStatus } from "@/types/cut-order";
+
+export const orderStatusLabels: Record<OrderStatusEnum, CutOrderStatus> = {
+  borrador: "Borrador",
+  operativa: "Operativa",
+  pausada: "Pausada",
+  completada: "Completada",
+  cancelada: "Cancelada",
+};
+
+/**
+ * Cambios de estado permitidos. Completar y reabrir una orden ocurre solo al
+ * cambiar sus bultos; pausar, reanudar y cancelar lo hace el operador.
+ */
+const orderStatusTransitions: Record<OrderStatusEnum, OrderStatusEnum[]> = {
+  borrador: ["operativa", "cancelada"],
+  operativa: ["pausada", "completada", "cancelada"],
+  pausada: ["operativa", "cancelada"],
+  completada: ["operativa"],
+  cancelada: [],
+};
+
+export const canChangeOrderStatus = (from: OrderStatusEnum, to: OrderStatusEnum) =>
+  orderStatusTransitions[from].includes(to);
+
+/** Solo las órdenes operativas o completadas admiten cambios en sus bultos. */
+export const orderAcceptsBundleChanges = (status: OrderStatusEnum) =>
+  status === "operativa" || status === "completada";
@@ -0,0 +1,100 @@
+import { getRepository } from "@/lib/repositories";
+import { CutOrder, CutOrderDraft, OrderTemplate } from "@/types/cut-order";
+
+/**
+ * Borrador con el material y los bultos originales de una orden. Las
+ * divisiones se vuelven a sumar a su bulto original y se ignoran los bultos
+ * absorbidos en una unión, cuyas láminas ya cuentan en el bulto resultante.
+ */
+export const draftFromCutOrder = (order: CutOrder): CutOrderDraft => {
+  const byId = new Map(order.bundles.map((bundle) => [bundle.id, bundle]));
+  const rootOf = (bundleId: string) => {
+    let current = byId.get(bundleId);
+    const visited = new Set<string>();
+    while (current?.parentId && byId.has(current.parentId) && !visited.has(current.id)) {
+      visited.add(current.id);
+      current = byId.get(current.parentId);
+    }
+    return current;
+  };
+
+  const sheetsByRoot = new Map<string, number>();
+  order.bundles.forEach((bundle) => {
+    if (bundle.status === "Unido") return;
+    const root = rootOf(bundle.id);
+    if (!root) return;
+    sheetsByRoot.set(root.id, (sheetsByRoot.get(root.id) ?? 0) + bundle.sheets);
+  });
+
+  return {
+    materialId: order.material?.id ?? null,
+    bundles: order.bundles
+      .filter((bundle) => !bundle.parentId && sheetsByRoot.has(bundle.id))
+      .map((bundle) => ({
+        sheets: sheetsByRoot.get(bundle.id) ?? bundle.sheets,
+        location: bundle.currentLocation === "Sin ubicación" ? "" : bundle.currentLocation,
+        num_bobina: bundle.num_bobina ?? "",
+      })),
+  };
+};
+
+export async function fetchOrderTemplates(): Promise<OrderTemplate[]> {
+  const { data, error } = await getRepository().orderTemplates.list();
+
+  if (error) {
+    throw new Error(`No se pudieron cargar las plantillas: ${error.message}`);
+  }
+
+  return data.map((template) => ({
+    id: template.id,
+    name: template.nombre,
+    materialId: template.material_id,
+    bundles: template.bultos.map((bundle) => ({
+      sheets: bundle.cantidad_laminas,
+      location: bundle.ubicacion_codigo ?? "",
+      num_bobina: bundle.num_bobina ?? "",
+    })),
+  }));
+}
+
+export async function saveOrderTemplate({
+  name,
+  draft,
+}: {
+  name: string;
+  draft: CutOrderDraft;
+}) {
+  const normalizedName = name.trim();
+  if (!normalizedName) {
+    throw new Error("Indica un nombre para la plantilla.");
+  }
+
+  const bundles = draft.bundles.filter((bundle) => bundle.sheets > 0);
+  if (bundles.length === 0) {
+    throw new Error("La plantilla necesita al menos un bulto con cantidad de láminas.");
+  }
+
+  const { data, error } = await getRepository().orderTemplates.insert({
+    nombre: normalizedName,
+    material_id: draft.materialId,
+    bultos: bundles.map((bundle) => ({
+      cantidad_laminas: bundle.sheets,
+      ubicacion_codigo: bundle.location.trim() || null,
+      num_bobina: bundle.num_bobina.trim() || null,
+    })),
+  });
+
+  if (error) {
+    throw new Error(`No se pudo guardar la plantilla: ${error.message}`);
+  }
+
+  return data.id;
+}
+
+export async function deleteOrderTemplate(templateId: string) {
+  const { error } = await getRepository().orderTemplates.remove(templateId);
+
+  if (error) {
+    throw new Error(`No se pudo eliminar la plantilla: ${error.message}`);
+  }
+}
@@ -0,0 +1,145 @@
+import { getRepository } from "@/lib/repositories";
+import type { CreateBundleInput, CreateCutOrderInput } from "./cut-orders";
+
+/**
+ * Reglas compartidas para crear órdenes. El formulario las usa para marcar
+ * errores junto a cada campo y `createCutOrder` las vuelve a aplicar antes de
+ * escribir, así que ninguna orden entra sin pasar por aquí.
+ */
+
+export const ORDER_CODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9\-_/.]*$/;
+export const ORDER_CODE_MAX_LENGTH = 40;
+export const BOBINA_PATTERN = /^[A-Za-z0-9][A-Za-z0-9\-_/.]*$/;
+export const BOBINA_MAX_LENGTH = 30;
+export const MAX_SHEETS_PER_BUNDLE = 10000;
+/** Días hacia adelante que se aceptan en la fecha de una orden. */
+export const MAX_ORDER_DATE_DAYS_AHEAD = 30;
+
+export type CutOrderValidation = {
+  code: string | null;
+  date: string | null;
+  /** Un mensaje por bulto, en el mismo orden que `input.bundles`. */
+  bundles: (string | null)[];
+  general: string | null;
+};
+
+/** Quita los espacios de los extremos y colapsa los internos. */
+export const normalizeOrderCode = (code: string) => code.trim().replace(/\s+/g, " ");
+
+const localIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(
+    date.getDate(),
+  ).padStart(2, "0")}`;
+
+export const validateOrderCode = (code: string): string | null => {
+  const normalized = normalizeOrderCode(code);
+  if (!normalized) return "Falta el número de orden.";
+  if (normalized.length > ORDER_CODE_MAX_LENGTH) {
+    return `El número de orden admite hasta ${ORDER_CODE_MAX_LENGTH} caracteres.`;
+  }
+  if (!ORDER_CODE_PATTERN.test(normalized)) {
+    return "El número de orden solo admite letras, números y los signos - _ / .";
+  }
+  return null;
+};
+
+export const validateOrderDate = (date: string, today = new Date()): string | null => {
+  if (!date) return "Falta la fecha.";
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const parsed = match
+    ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+    : null;
+  if (!parsed || localIsoDate(parsed) !== date) return "La fecha no es válida.";
+
+  const limit = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  limit.setDate(limit.getDate() + MAX_ORDER_DATE_DAYS_AHEAD);
+  if (date > localIsoDate(limit)) {
+    return `La fecha no puede superar en más de ${MAX_ORDER_DATE_DAYS_AHEAD} días a la de hoy.`;
+  }
+  return null;
+};
+
+export const validateSheets = (sheets: number | undefined): string | null => {
+  if (sheets === undefined || !Number.isInteger(sheets) || sheets <= 0) {
+    return "Cantidad de láminas inválida.";
+  }
+  if (sheets > MAX_SHEETS_PER_BUNDLE) {
+    return `Un bulto admite hasta ${MAX_SHEETS_PER_BUNDLE.toLocaleString("es-ES")} láminas.`;
+  }
+  return null;
+};
+
+export const validateBobina = (bobina: string | undefined): string | null => {
+  const normalized = bobina?.trim() ?? "";
+  if (!normalized) return null;
+  if (normalized.length > BOBINA_MAX_LENGTH || !BOBINA_PATTERN.test(normalized)) {
+    return `Número de bobina inválido: usa hasta ${BOBINA_MAX_LENGTH} letras, números o - _ / .`;
+  }
+  return null;
+};
+
+export const validateBundleInput = (bundle: CreateBundleInput): string | null => {
+  if (!bundle.currentLocation?.trim()) return "Falta la ubicación.";
+  return validateSheets(bundle.sheets) ?? validateBobina(bundle.num_bobina);
+};
+
+/** Validación sin acceso a datos; la unicidad se comprueba aparte. */
+export const validateCutOrderInput = (
+  input: CreateCutOrderInput,
+  today = new Date(),
+): CutOrderValidation => ({
+  code: validateOrderCode(input.code),
+  date: validateOrderDate(input.date, today),
+  bundles: input.bundles.map((bundle) => validateBundleInput(bundle)),
+  general:
+    input.bundles.length === 0
+      ? "Debes agregar al menos un bulto con ubicación y cantidad de láminas."
+      : null,
+});
+
+export const hasValidationErrors = (validation: CutOrderValidation) =>
+  Boolean(
+    validation.code
+      || validation.date
+      || validation.general
+      || validation.bundles.some((message) => message !== null),
+  );
+
+/** Devuelve un mensaje si ya hay otra orden con ese número. */
+export async function checkOrderCodeAvailable(
+  code: string,
+  excludeOrderId?: string,
+): Promise<string | null> {
+  const normalized = normalizeOrderCode(code);
+  if (!normalized) return null;
+
+  const { data, error } = await getRepository().orders.findByNumbers([normalized]);
+
+  if (error) {
+    throw new Error(`No se pudo verificar el número de orden: ${error.message}`);
+  }
+
+  return data.some((order) => order.id !== excludeOrderId)
+    ? `La orden ${normalized} ya existe.`
+    : null;
+}
+
+/** Lanza el primer error encontrado; la usa el servicio antes de guardar. */
+export async function assertValidCutOrderInput(input: CreateCutOrderInput) {
+  const validation = validateCutOrderInput(input);
+  const bundleIndex = validation.bundles.findIndex((message) => message !== null);
+  const message =
+    validation.code
+    ?? validation.date
+    ?? validation.general
+    ?? (bundleIndex >= 0
+      ? `${input.bundles[bundleIndex].name || `Bulto #${bundleIndex + 1}`}: ${
+          validation.bundles[bundleIndex]
+        }`
+      : null)
+    ?? (await checkOrderCodeAvailable(input.code));
+
+  if (message) {
+    throw new Error(message);
+  }
+}
@@ -0,0 +1,22 @@
+import { getRepository } from "@/lib/repositories";
+
+export type ScrapReason = {
+  id: string;
+  nombre: string;
+  activo: boolean;
+};
+
+/** Catálogo de motivos de descarte, incluidos los inactivos para los informes. */
+export async function fetchScrapReasons(): Promise<ScrapReason[]> {
+  const { data, error } = await getRepository().scrapReasons.list();
+
+  if (error) {
+    throw new Error(`No se pudieron cargar los motivos de descarte: ${error.message}`);
+  }
+
+  return data.map((reason) => ({
+    id: reason.id,
+    nombre: reason.nombre,
+    activo: reason.activo,
+  }));
+}
@@ -0,0 +1,204 @@
+/**
+ * Lectura de planillas CSV y XLSX como matrices de texto, sin dependencias:
+ * el XLSX es un ZIP con XML que se descomprime con `DecompressionStream`.
+ * Solo se lee la primera hoja y los valores tal como están guardados.
+ */
+
+export type SpreadsheetRows = string[][];
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+const decodeXml = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? Number.parseInt(entity.slice(2), 16)
+          : Number.parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+
+/** Separa por coma o punto y coma, según lo que aparezca en la primera línea. */
+export const parseCsv = (text: string): SpreadsheetRows => {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter =
+    (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index];
+    if (inQuotes) {
+      if (char === '"' && content[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[index + 1] === "\n") index += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const inflateRaw = async (data: Uint8Array) => {
+  const stream = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Lee las entradas de un ZIP y devuelve un lector de archivos por nombre. */
+const openZip = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  let endOffset = -1;
+  for (let offset = bytes.length - 22; offset >= 0; offset -= 1) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error("El archivo no es un XLSX válido.");
+  }
+
+  const entries = new Map<string, { method: number; size: number; headerOffset: number }>();
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let index = 0; index < entryCount; index += 1) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      size: view.getUint32(offset + 20, true),
+      headerOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return async (name: string): Promise<string | null> => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+    const header = entry.headerOffset;
+    const dataStart =
+      header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + entry.size);
+    const content = entry.method === 8 ? await inflateRaw(raw) : raw;
+    return decoder.decode(content);
+  };
+};
+
+const columnIndex = (reference: string) => {
+  const letters = reference.replace(/\d+$/, "").toUpperCase();
+  return [...letters].reduce((acc, letter) => acc * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const readTextRuns = (xml: string) =>
+  [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((match) => decodeXml(match[1])).join("");
+
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<SpreadsheetRows> => {
+  const readEntry = openZip(buffer);
+
+  // La primera hoja del libro, resuelta a través de las relaciones.
+  const workbook = (await readEntry("xl/workbook.xml")) ?? "";
+  const relationships = (await readEntry("xl/_rels/workbook.xml.rels")) ?? "";
+  const sheetRelation = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const target = sheetRelation
+    ? relationships.match(
+        new RegExp(`<Relationship\\b[^>]*\\bId="${sheetRelation}"[^>]*\\bTarget="([^"]+)"`),
+      )?.[1]
+      ?? relationships.match(
+        new RegExp(`<Relationship\\b[^>]*\\bTarget="([^"]+)"[^>]*\\bId="${sheetRelation}"`),
+      )?.[1]
+    : undefined;
+  const sheetPath = target
+    ? target.startsWith("/")
+      ? target.slice(1)
+      : `xl/${target}`
+    : "xl/worksheets/sheet1.xml";
+
+  const sheet = await readEntry(sheetPath);
+  if (!sheet) {
+    throw new Error("El archivo XLSX no tiene hojas.");
+  }
+
+  const sharedStringsXml = (await readEntry("xl/sharedStrings.xml")) ?? "";
+  const sharedStrings = [...sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((match) =>
+    readTextRuns(match[1]),
+  );
+
+  const rows: SpreadsheetRows = [];
+  // Excel escribe las filas vacías con formato como <row r="n"/>.
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(rowMatch[1].match(/\br="(\d+)"/)?.[1] ?? rows.length + 1);
+    const rowBody = rowMatch[2] ?? "";
+    const cells: string[] = [];
+    for (const cellMatch of rowBody.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] ?? "";
+      const reference = attributes.match(/\br="([A-Z]+\d*)"/i)?.[1];
+      const type = attributes.match(/\bt="(\w+)"/)?.[1];
+      const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      const value =
+        type === "s"
+          ? sharedStrings[Number(rawValue)] ?? ""
+          : type === "inlineStr"
+            ? readTextRuns(body)
+            : decodeXml(rawValue ?? "");
+      cells[reference ? columnIndex(reference) : cells.length] = value;
+    }
+    rows[rowNumber - 1] = Array.from(cells, (cell) => cell ?? "");
+  }
+
+  return Array.from(rows, (row) => row ?? []);
+};
+
+export async function readSpreadsheet(file: File): Promise<SpreadsheetRows> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx")) {
+    return parseXlsx(await file.arrayBuffer());
+  }
+  if (name.endsWith(".csv") || name.endsWith(".txt")) {
+    return parseCsv(await file.text());
+  }
+  throw new Error("Formato no soportado: usa un archivo CSV o XLSX.");
+}
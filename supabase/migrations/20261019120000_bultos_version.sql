@@ -0,0 +1,23 @@
+-- Bloqueo optimista para bultos: cada actualización incrementa la versión,
+-- de modo que una división calculada sobre datos viejos no afecta filas.
+alter table bultos add column if not exists version integer not null default 1;
+
+create or replace function bultos_incrementar_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.version := old.version + 1;
+  return new;
+end;
+$$;
+
+drop trigger if exists bultos_version on bultos;
+create trigger bultos_version
+  before update on bultos
+  for each row
+  execute function bultos_incrementar_version();
+
+-- Dos divisiones concurrentes no pueden generar la misma variante.
+create unique index if not exists bultos_orden_numero_unico
+  on bultos (orden_corte_id, numero_bulto);
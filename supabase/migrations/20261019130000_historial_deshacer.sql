@@ -0,0 +1,8 @@
+-- Datos para deshacer la última acción aplicada sobre un grupo de bultos.
+alter table historial_bultos
+  add column if not exists lote_id uuid,
+  add column if not exists revertido boolean not null default false,
+  add column if not exists estado_anterior estado_bulto,
+  add column if not exists ubicacion_anterior_id uuid references ubicaciones (id);
+
+create index if not exists historial_bultos_lote_idx on historial_bultos (lote_id);
@@ -0,0 +1,2 @@
+-- Permite liberar un bulto asignado y devolverlo a disponible.
+alter type accion_bulto add value if not exists 'desasignar' after 'asignar';
@@ -0,0 +1,10 @@
+-- Unión de bultos: los absorbidos quedan como "unido" y apuntan al resultante.
+alter type estado_bulto add value if not exists 'unido';
+alter type accion_bulto add value if not exists 'unir';
+
+alter table bultos
+  add column if not exists unido_a_id uuid references bultos (id);
+
+-- Láminas involucradas en acciones como unir o utilizar parcialmente.
+alter table historial_bultos
+  add column if not exists cantidad_laminas integer;
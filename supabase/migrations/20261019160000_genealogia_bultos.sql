@@ -0,0 +1,42 @@
+-- Genealogía de bultos: cada división apunta a su bulto padre en lugar de
+-- codificar la variante en numero_bulto (base * 1000 + variante).
+alter table bultos
+  add column if not exists bulto_padre_id uuid references bultos (id),
+  add column if not exists numero_hijo integer;
+
+drop index if exists bultos_orden_numero_unico;
+
+-- La variante 1 era el bulto original y las demás pasan a ser sus hijas. La
+-- codificación anterior no guardaba divisiones de divisiones, así que todas
+-- cuelgan del original.
+with codificados as (
+  select
+    id,
+    orden_corte_id,
+    numero_bulto / 1000 as base,
+    greatest(numero_bulto % 1000, 1) as variante
+  from bultos
+  where numero_bulto >= 1000
+),
+originales as (
+  select distinct on (orden_corte_id, base) id, orden_corte_id, base
+  from codificados
+  order by orden_corte_id, base, variante
+)
+update bultos b
+set
+  numero_bulto = c.base,
+  bulto_padre_id = case when c.id = o.id then null else o.id end,
+  numero_hijo = case when c.id = o.id then null else c.variante - 1 end
+from codificados c
+join originales o on o.orden_corte_id = c.orden_corte_id and o.base = c.base
+where b.id = c.id;
+
+-- Los originales son únicos por orden; las divisiones, por bulto padre.
+create unique index if not exists bultos_orden_numero_unico
+  on bultos (orden_corte_id, numero_bulto)
+  where bulto_padre_id is null;
+
+create unique index if not exists bultos_padre_hijo_unico
+  on bultos (bulto_padre_id, numero_hijo)
+  where bulto_padre_id is not null;
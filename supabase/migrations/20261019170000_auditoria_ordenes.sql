@@ -0,0 +1,13 @@
+-- Registro de los cambios hechos a una orden después de crearla.
+create table if not exists auditoria_ordenes (
+  id uuid primary key default gen_random_uuid(),
+  orden_corte_id uuid not null references ordenes_corte (id) on delete cascade,
+  campo text not null,
+  valor_anterior text,
+  valor_nuevo text,
+  fecha_hora timestamptz not null default now(),
+  lote_id uuid
+);
+
+create index if not exists auditoria_ordenes_orden_idx
+  on auditoria_ordenes (orden_corte_id, fecha_hora desc);
@@ -0,0 +1,5 @@
+-- Cancelación de órdenes: se conservan con su motivo pero se ocultan por
+-- defecto de las listas y del dashboard.
+alter table ordenes_corte
+  add column if not exists cancelada_en timestamptz,
+  add column if not exists motivo_cancelacion text;
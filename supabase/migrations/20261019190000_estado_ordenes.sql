@@ -0,0 +1,35 @@
+-- Ciclo de vida explícito de las órdenes. Reemplaza a `activo`, que mezclaba
+-- órdenes pausadas, completadas e inactivas.
+do $$
+begin
+  if not exists (select 1 from pg_type where typname = 'estado_orden') then
+    create type estado_orden as enum (
+      'borrador',
+      'operativa',
+      'pausada',
+      'completada',
+      'cancelada'
+    );
+  end if;
+end
+$$;
+
+alter table ordenes_corte
+  add column if not exists estado estado_orden not null default 'operativa';
+
+update ordenes_corte
+set estado = case
+  when cancelada_en is not null then 'cancelada'::estado_orden
+  when activo then 'operativa'::estado_orden
+  when exists (select 1 from bultos b where b.orden_corte_id = ordenes_corte.id)
+    and not exists (
+      select 1 from bultos b
+      where b.orden_corte_id = ordenes_corte.id
+        and b.estado in ('disponible', 'asignado')
+    ) then 'completada'::estado_orden
+  else 'pausada'::estado_orden
+end;
+
+update auditoria_ordenes set campo = 'estado' where campo = 'activo';
+
+alter table ordenes_corte drop column if exists activo;
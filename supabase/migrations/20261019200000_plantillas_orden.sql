@@ -0,0 +1,9 @@
+-- Plantillas para crear órdenes que repiten material y distribución de bultos.
+create table if not exists plantillas_orden (
+  id uuid primary key default gen_random_uuid(),
+  nombre text not null unique,
+  material_id uuid references materiales (id),
+  -- [{ "cantidad_laminas": 120, "ubicacion_codigo": "A1", "num_bobina": null }]
+  bultos jsonb not null default '[]'::jsonb,
+  creado_en timestamptz not null default now()
+);
@@ -0,0 +1,20 @@
+-- Los números de orden se guardan sin espacios sobrantes y no se repiten.
+update ordenes_corte
+set numero_orden = regexp_replace(btrim(numero_orden), '\s+', ' ', 'g')
+where numero_orden <> regexp_replace(btrim(numero_orden), '\s+', ' ', 'g');
+
+-- Las órdenes repetidas que ya existían conservan el número en la más antigua;
+-- las demás reciben un sufijo para poder crear el índice.
+with repetidas as (
+  select
+    id,
+    row_number() over (partition by numero_orden order by creado_en, id) as posicion
+  from ordenes_corte
+)
+update ordenes_corte o
+set numero_orden = o.numero_orden || '-' || r.posicion
+from repetidas r
+where r.id = o.id and r.posicion > 1;
+
+create unique index if not exists ordenes_corte_numero_orden_key
+  on ordenes_corte (numero_orden);
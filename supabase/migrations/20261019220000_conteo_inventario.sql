@@ -0,0 +1,23 @@
+-- Conteos físicos por ubicación y los ajustes que se derivan de ellos.
+alter type accion_bulto add value if not exists 'conteo';
+
+-- Láminas que tenía el bulto antes de un ajuste, para poder deshacerlo.
+alter table historial_bultos
+  add column if not exists laminas_anteriores integer;
+
+create table if not exists conteos_inventario (
+  id uuid primary key default gen_random_uuid(),
+  ubicacion_id uuid not null references ubicaciones (id),
+  estado text not null default 'abierto' check (estado in ('abierto', 'cerrado')),
+  -- [{ "bulto_id": "...", "laminas_contadas": 120 }]
+  lineas jsonb not null default '[]'::jsonb,
+  -- [{ "bulto_id": "...", "lote_id": "...", "tipo": "faltante" }]
+  ajustes jsonb not null default '[]'::jsonb,
+  iniciado_en timestamptz not null default now(),
+  cerrado_en timestamptz
+);
+
+-- Un solo conteo abierto por ubicación.
+create unique index if not exists conteos_inventario_abierto_idx
+  on conteos_inventario (ubicacion_id)
+  where estado = 'abierto';
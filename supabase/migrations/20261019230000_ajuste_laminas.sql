@@ -0,0 +1,5 @@
+-- Ajuste manual de la cantidad de láminas de un bulto con un motivo obligatorio.
+alter type accion_bulto add value if not exists 'ajustar';
+
+alter table historial_bultos
+  add column if not exists motivo text;
@@ -0,0 +1,24 @@
+-- Descarte de bultos o láminas dañadas. "descartado" es un estado final,
+-- distinto de "usado", para poder informar el desperdicio por separado.
+alter type estado_bulto add value if not exists 'descartado';
+alter type accion_bulto add value if not exists 'descartar';
+
+create table if not exists motivos_descarte (
+  id uuid primary key default gen_random_uuid(),
+  nombre text not null unique,
+  activo boolean not null default true
+);
+
+insert into motivos_descarte (nombre) values
+  ('Golpe o daño en manipulación'),
+  ('Humedad u óxido'),
+  ('Defecto de corte'),
+  ('Defecto de material'),
+  ('Otro')
+on conflict (nombre) do nothing;
+
+alter table historial_bultos
+  add column if not exists motivo_descarte_id uuid references motivos_descarte (id);
+
+create index if not exists historial_bultos_accion_fecha_idx
+  on historial_bultos (accion, fecha_hora);
@@ -0,0 +1,5 @@
+-- Las ubicaciones pasan a ser un catálogo administrado: ya no se crean al
+-- mover o cargar bultos. Las inactivas se conservan para el historial, pero
+-- no se pueden elegir como destino.
+alter table ubicaciones
+  add column if not exists activo boolean not null default true;
@@ -0,0 +1,47 @@
+-- Unifica una ubicación duplicada con otra en una sola transacción: si algo
+-- falla, no queda ningún bulto, movimiento ni plantilla a medio pasar.
+create or replace function unificar_ubicaciones(origen uuid, destino uuid)
+returns void
+language plpgsql
+as $$
+declare
+  codigo_origen text;
+  codigo_destino text;
+begin
+  select codigo into codigo_origen from ubicaciones where id = origen for update;
+  select codigo into codigo_destino from ubicaciones where id = destino for update;
+  if codigo_origen is null or codigo_destino is null then
+    raise exception 'No se encontró la ubicación.';
+  end if;
+
+  update bultos set ubicacion_id = destino where ubicacion_id = origen;
+  update historial_bultos set ubicacion_destino_id = destino where ubicacion_destino_id = origen;
+  update historial_bultos set ubicacion_anterior_id = destino where ubicacion_anterior_id = origen;
+  -- Con conteos abiertos en las dos falla el índice único y se revierte todo.
+  update conteos_inventario set ubicacion_id = destino where ubicacion_id = origen;
+
+  -- Las plantillas guardan el código de la ubicación, no su id.
+  update plantillas_orden
+  set bultos = (
+    select coalesce(
+      jsonb_agg(
+        case
+          when lower(elemento.bulto ->> 'ubicacion_codigo') = lower(codigo_origen)
+            then jsonb_set(elemento.bulto, '{ubicacion_codigo}', to_jsonb(codigo_destino))
+          else elemento.bulto
+        end
+        order by elemento.posicion
+      ),
+      '[]'::jsonb
+    )
+    from jsonb_array_elements(plantillas_orden.bultos) with ordinality as elemento(bulto, posicion)
+  )
+  where exists (
+    select 1
+    from jsonb_array_elements(plantillas_orden.bultos) as elemento(bulto)
+    where lower(elemento.bulto ->> 'ubicacion_codigo') = lower(codigo_origen)
+  );
+
+  delete from ubicaciones where id = origen;
+end;
+$$;
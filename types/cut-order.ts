@@ -2,13 +2,17 @@ export type BundleHistoryEntry = {
   action: string;
   location: string;
   date: string;
+  reverted?: boolean;
+  /** Láminas antes y después de un ajuste, con su motivo. */
+  sheetChange?: { before: number; after: number; reason: string };
 };
 
 export type Bundle = {
   id: string;
   name: string;
-  baseName: string;
-  rawNumber: number | null;
+  /** Posición en el árbol de divisiones, p. ej. "3.2.1". */
+  genealogyCode: string | null;
+  parentId: string | null;
   createdAt: string;
   currentLocation: string;
   sheets: number;
@@ -16,6 +20,7 @@ export type Bundle = {
   availability: string;
   status: string;
   num_bobina?: string | null;
+  version: number;
   history: BundleHistoryEntry[];
 };
 
@@ -25,16 +30,48 @@ export type Material = {
   codigo: string | null;
 };
 
+export type OrderAuditEntry = {
+  id: string;
+  field: string;
+  previous: string;
+  next: string;
+  date: string;
+};
+
+export type CutOrderStatus =
+  | "Borrador"
+  | "Operativa"
+  | "Pausada"
+  | "Completada"
+  | "Cancelada";
+
 export type CutOrder = {
   id: string;
   code: string;
   label: string;
   date: string;
-  status: "Activo" | "Inactivo";
-  workflowStatus: string;
+  /** Fecha tal como se guarda (AAAA-MM-DD), para editarla. */
+  rawDate: string | null;
+  status: CutOrderStatus;
+  cancellationReason: string | null;
   locationFilter: string;
   completedBundles: number;
   pendingBundles: number;
   bundles: Bundle[];
   material: Material | null;
 };
+
+/** Datos para empezar una orden nueva a partir de otra o de una plantilla. */
+export type CutOrderDraft = {
+  materialId: string | null;
+  bundles: {
+    sheets: number;
+    location: string;
+    num_bobina: string;
+  }[];
+};
+
+export type OrderTemplate = CutOrderDraft & {
+  id: string;
+  name: string;
+};